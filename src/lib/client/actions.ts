@@ -1,5 +1,10 @@
 import { parse } from "devalue";
 import type { Snippet } from "svelte";
+import type { RpcCallOptions, RpcHandler } from "../shared/rpc.js";
+import type { ReconnectOptions } from "./reconnect.js";
+import type { SendQueueOptions, Serializer } from "./queue.js";
+import type { MessageFilter, MessageParser, MessageTransform } from "./messages.js";
+import type { Presence } from "./presence.svelte.js";
 
 export type ActionSocketResult = {
     url: string,
@@ -12,7 +17,32 @@ export type ActionSocketController = {
     close(code?: number, reason?: string): void,
     get websocket(): WebSocket | undefined,
     get isOpen(): boolean,
-    get state(): number | undefined
+    get state(): number | undefined,
+    /**
+     * Retries made since the connection was lost, 0 while connected
+     */
+    get attempts(): number,
+    /**
+     * Whether a retry is scheduled or connecting
+     */
+    get reconnecting(): boolean,
+    /**
+     * Drops the current socket and connects again right away, `action` sockets fetch a fresh connection key
+     */
+    reconnect(): Promise<void>,
+    /**
+     * Sends a message, serialized with the `serialize` prop. While the socket isn't open the message is queued and
+     * sent once it opens; returns false when it was dropped.
+     */
+    send(data: unknown): boolean,
+    /**
+     * Number of messages waiting for the socket to open
+     */
+    get queued(): number,
+    /**
+     * Calls a procedure registered on the server endpoint with `controller.procedure()`
+     */
+    call<T = unknown>(method: string, params?: unknown, options?: RpcCallOptions): Promise<T>
 }
 
 export type WebSocketEvents<T = any> = {
@@ -20,6 +50,14 @@ export type WebSocketEvents<T = any> = {
     onopen?: (ev: Event) => unknown,
     onclose?: (ev: CloseEvent) => unknown,
     onerror?: (reason?: Event) => unknown,
+    /**
+     * Called when a retry connected again, with the number of retries it took
+     */
+    onreconnect?: (attempts: number) => unknown,
+    /**
+     * Called when `reconnect.maxAttempts` retries failed
+     */
+    ongiveup?: (attempts: number, ev?: CloseEvent) => unknown,
 }
 
 export type WebSocketSnippets<T = any> = {
@@ -35,16 +73,56 @@ type ActionResult<Success = Record<string, unknown>> =
     | { type: 'redirect', location: string }
     | { type: 'error', error: unknown };
 
-export type WebSocketProps<T = any> =
+/**
+ * Options of {@link createSocket}, which are also the props of the component besides its snippets
+ */
+export type SocketOptions<T = any> =
     ({ url: string | URL, protocols?: (string | string[]) } | {
         action: string,
         devalue?: boolean,
         init?: RequestInit
     }) &
-    { auto_open?: boolean, data?: T[], binaryType?: BinaryType } &
-    WebSocketSnippets<T> &
+    {
+        auto_open?: boolean,
+        /**
+         * Initial messages
+         */
+        data?: T[],
+        binaryType?: BinaryType,
+        /**
+         * Procedures the server can call with `ws.request(method, params)`
+         */
+        procedures?: Record<string, RpcHandler>,
+        rpcTimeout?: number,
+        /**
+         * Reconnects with exponential backoff after the connection is lost (default: true)
+         */
+        reconnect?: boolean | ReconnectOptions,
+        /**
+         * Queue for messages sent while the socket isn't open, `false` drops them (default: 100 messages, dropping
+         * the oldest)
+         */
+        queue?: false | SendQueueOptions,
+        serialize?: Serializer,
+        /**
+         * Decodes incoming text frames before they enter `data`
+         */
+        parse?: MessageParser,
+        /**
+         * Keeps only the latest messages in `data` (default: 1000)
+         */
+        maxMessages?: number,
+        filter?: MessageFilter,
+        transform?: MessageTransform<T>,
+        /**
+         * Presence list kept up to date by the endpoint's presence events, which don't enter `data`
+         */
+        presence?: Presence
+    } &
     WebSocketEvents<T>
 
+export type WebSocketProps<T = any> = SocketOptions<T> & WebSocketSnippets<T>
+
 /**
  * Gives the ability to call the action and create the connection url but not use it directly
  * @param action
@@ -6,9 +6,29 @@ export {
     ActionSocketError,
     type ActionSocketController,
     type ActionSocketResult,
+    type SocketOptions,
     type WebSocketEvents,
     type WebSocketProps,
     type WebSocketSnippets
 } from "./actions.js"
 
+export {RpcError, type RpcCallOptions, type RpcErrorCode} from "../shared/rpc.js"
+export {type ReconnectOptions} from "./reconnect.js"
+export {SendQueueOverflowError, type OverflowPolicy, type SendQueueOptions, type Serializer} from "./queue.js"
+export {type MessageFilter, type MessageParser, type MessageTransform} from "./messages.js"
+export {
+    createPresence,
+    type Presence,
+    type PresenceListEntry,
+    type PresenceOptions
+} from "./presence.svelte.js"
+export {type PresenceDiff, type PresenceState} from "../shared/presence.js"
+export {
+    createSocket,
+    getSocketContext,
+    setSocketContext,
+    type Socket,
+    type SocketState
+} from "./socket.svelte.js"
+
 export default CP
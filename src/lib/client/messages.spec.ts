@@ -0,0 +1,54 @@
+import {stringify} from 'devalue';
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_MAX_MESSAGES, parseMessage, RingBuffer} from './messages.js';
+
+describe('parseMessage', () => {
+    it('decodes text frames and passes binary frames on', () => {
+        const binary = new ArrayBuffer(2);
+
+        expect(parseMessage('{"a":1}', 'json')).toEqual({a: 1});
+        expect(parseMessage(stringify({at: new Date(0)}), 'devalue')).toEqual({at: new Date(0)});
+        expect(parseMessage(binary, 'json')).toBe(binary);
+        expect(parseMessage('raw')).toBe('raw');
+        expect(parseMessage('42', Number)).toBe(42);
+        expect(() => parseMessage('{', 'json')).toThrow();
+    });
+});
+
+describe('RingBuffer', () => {
+    it('keeps the latest items, oldest first', () => {
+        const buffer = new RingBuffer<string>(3);
+        const evicted = ['a', 'b', 'c', 'd', 'e'].map((item) => buffer.push(item));
+
+        expect(evicted).toEqual([undefined, undefined, undefined, 'a', 'b']);
+        expect(buffer.toArray()).toEqual(['c', 'd', 'e']);
+        expect(buffer.size).toBe(3);
+        expect([buffer.at(0), buffer.at(-1), buffer.at(3)]).toEqual(['c', 'e', undefined]);
+    });
+
+    it('writes in place once full and returns copies', () => {
+        const buffer = new RingBuffer<number>(2);
+        buffer.push(1);
+        const before = buffer.toArray();
+        buffer.push(2);
+        buffer.push(3);
+
+        expect(before).toEqual([1]);
+        expect(buffer.toArray()).toEqual([2, 3]);
+        expect((buffer as unknown as { items: number[] }).items).toEqual([3, 2]);
+    });
+
+    it('stores nothing without capacity and is bounded by default', () => {
+        const empty = new RingBuffer<number>(0);
+        expect(empty.push(1)).toBe(1);
+        expect(empty.toArray()).toEqual([]);
+
+        const bounded = new RingBuffer<number>();
+        for (let i = 0; i < DEFAULT_MAX_MESSAGES + 5; i++) bounded.push(i);
+        expect(bounded.size).toBe(DEFAULT_MAX_MESSAGES);
+        expect(bounded.at(0)).toBe(5);
+
+        bounded.clear();
+        expect(bounded.size).toBe(0);
+    });
+});
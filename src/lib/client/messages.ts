@@ -0,0 +1,88 @@
+import { parse } from "devalue";
+
+/**
+ * How incoming text frames are decoded before they enter `data`; binary frames are passed on as-is unless a custom
+ * parser is given
+ */
+export type MessageParser<T = any> = 'json' | 'devalue' | ((data: any) => T);
+
+/**
+ * Decides whether a (parsed) message enters `data`
+ */
+export type MessageFilter = (message: any, event: MessageEvent) => boolean;
+
+/**
+ * Maps a (parsed) message to the value stored in `data`
+ */
+export type MessageTransform<T = any> = (message: any, event: MessageEvent) => T;
+
+/**
+ * A stored message with a stable id, used as key when rendering so trimming the history doesn't re-render the rest
+ */
+export type HistoryEntry<T> = { id: number, value: T };
+
+export function parseMessage<T = any>(data: unknown, parser?: MessageParser<T>): T {
+    if (typeof parser === 'function') return parser(data);
+    if (typeof data !== 'string') return data as T;
+    if (parser === 'json') return JSON.parse(data);
+    if (parser === 'devalue') return parse(data);
+    return data as T;
+}
+
+export const DEFAULT_MAX_MESSAGES = 1000;
+
+/**
+ * Fixed-capacity buffer of the latest items: appending overwrites the oldest item once full, without copying
+ */
+export class RingBuffer<T> {
+    private items: T[] = [];
+    private head = 0; // index of the oldest item once full
+    readonly capacity: number;
+
+    constructor(capacity: number = DEFAULT_MAX_MESSAGES) {
+        this.capacity = Math.max(0, capacity);
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    /**
+     * Appends an item, returns the item it evicted
+     * @param item
+     */
+    push(item: T): T | undefined {
+        if (this.capacity === 0) return item;
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+            return undefined;
+        }
+        const evicted = this.items[this.head];
+        this.items[this.head] = item;
+        this.head = (this.head + 1) % this.capacity;
+        return evicted;
+    }
+
+    /**
+     * Returns the item at an index counted from the oldest one, negative indexes count from the newest one
+     * @param index
+     */
+    at(index: number): T | undefined {
+        const size = this.items.length;
+        if (index < 0) index += size;
+        if (index < 0 || index >= size) return undefined;
+        return this.items[(this.head + index) % size];
+    }
+
+    /**
+     * Returns the items from oldest to newest
+     */
+    toArray(): T[] {
+        return this.head === 0 ? this.items.slice() : this.items.slice(this.head).concat(this.items.slice(0, this.head));
+    }
+
+    clear() {
+        this.items = [];
+        this.head = 0;
+    }
+}
@@ -0,0 +1,79 @@
+import { applyPresenceDiff, decodePresenceFrame, type PresenceState } from "../shared/presence.js";
+
+/**
+ * A present key with its state, e.g. a user that has one or more tabs open
+ */
+export type PresenceListEntry<TState = any> = { key: string, state: TState };
+
+export type PresenceOptions<TState = any> = {
+    onjoin?: (key: string, state: TState) => void,
+    onleave?: (key: string, state: TState) => void,
+    onupdate?: (key: string, state: TState) => void
+};
+
+/**
+ * A reactive presence list created with {@link createPresence}
+ */
+export type Presence<TState = any> = {
+    readonly list: PresenceListEntry<TState>[],
+    readonly state: PresenceState<TState>,
+    readonly size: number,
+    get(key: string): TState | undefined,
+    has(key: string): boolean,
+    /**
+     * Applies a `presence_state` or `presence_diff` frame, returns false for any other message. Sockets created with
+     * the `presence` option call this for every text frame.
+     */
+    handle(data: unknown): boolean,
+    /**
+     * Forgets every key, e.g. after leaving the page the presence belongs to
+     */
+    reset(): void
+};
+
+/**
+ * Creates a presence list kept up to date by an endpoint with `presence`; pass it as the `presence` option of
+ * {@link createSocket} or the `WebSocket` component. A reconnecting socket receives the full state again, which
+ * replaces the list.
+ * @param options
+ */
+export function createPresence<TState = any>(options: PresenceOptions<TState> = {}): Presence<TState> {
+    let state = $state.raw<PresenceState<TState>>({});
+    const list = $derived(Object.entries(state).map(([key, value]) => ({ key, state: value })));
+
+    return {
+        get list() {
+            return list;
+        },
+        get state() {
+            return state;
+        },
+        get size() {
+            return list.length;
+        },
+        get(key) {
+            return Object.hasOwn(state, key) ? state[key] : undefined;
+        },
+        has(key) {
+            return Object.hasOwn(state, key);
+        },
+        handle(data) {
+            if (typeof data !== 'string') return false;
+            const frame = decodePresenceFrame<TState>(data);
+            if (!frame) return false;
+            if (frame.event === 'presence_state') {
+                state = applyPresenceDiff({}, { joins: frame.data, leaves: {}, updates: {} });
+                return true;
+            }
+            const diff = frame.data;
+            state = applyPresenceDiff(state, diff);
+            for (const [key, value] of Object.entries(diff.leaves)) options.onleave?.(key, value);
+            for (const [key, value] of Object.entries(diff.joins)) options.onjoin?.(key, value);
+            for (const [key, value] of Object.entries(diff.updates)) options.onupdate?.(key, value);
+            return true;
+        },
+        reset() {
+            state = {};
+        }
+    };
+}
@@ -0,0 +1,62 @@
+import {parse} from 'devalue';
+import {describe, expect, it} from 'vitest';
+import {SendQueue, SendQueueOverflowError, serializeMessage} from './queue.js';
+
+const drain = (queue: SendQueue<string>) => {
+    const sent: string[] = [];
+    queue.flush((message) => sent.push(message));
+    return sent;
+};
+
+describe('SendQueue', () => {
+    it('flushes messages in order', () => {
+        const queue = new SendQueue<string>();
+        queue.push('a');
+        queue.push('b');
+
+        expect(drain(queue)).toEqual(['a', 'b']);
+        expect(queue.size).toBe(0);
+    });
+
+    it('applies the overflow policy when full', () => {
+        const oldest = new SendQueue<string>({limit: 2});
+        const newest = new SendQueue<string>({limit: 2, overflow: 'drop-newest'});
+        const strict = new SendQueue<string>({limit: 2, overflow: 'error'});
+        for (const queue of [oldest, newest, strict]) {
+            queue.push('a');
+            queue.push('b');
+        }
+
+        expect(oldest.push('c')).toBe(true);
+        expect(drain(oldest)).toEqual(['b', 'c']);
+        expect(newest.push('c')).toBe(false);
+        expect(drain(newest)).toEqual(['a', 'b']);
+        expect(() => strict.push('c')).toThrow(SendQueueOverflowError);
+    });
+
+    it('keeps the messages that could not be sent', () => {
+        const queue = new SendQueue<string>();
+        queue.push('a');
+        queue.push('b');
+        queue.push('c');
+
+        const sent: string[] = [];
+        expect(() => queue.flush((message) => {
+            if (message === 'b') throw new Error('closed');
+            sent.push(message);
+        })).toThrow('closed');
+        expect(sent).toEqual(['a']);
+        expect(drain(queue)).toEqual(['b', 'c']);
+    });
+});
+
+describe('serializeMessage', () => {
+    it('serializes with json, devalue or a custom function', () => {
+        const value = {at: new Date(0), tags: new Set(['x'])};
+
+        expect(serializeMessage('raw')).toBe('raw');
+        expect(serializeMessage({a: 1}, 'json')).toBe('{"a":1}');
+        expect(parse(serializeMessage(value, 'devalue') as string)).toEqual(value);
+        expect(serializeMessage(1, (n) => `#${n}`)).toBe('#1');
+    });
+});
@@ -0,0 +1,93 @@
+import { stringify } from "devalue";
+
+export type SocketData = Parameters<WebSocket['send']>[0];
+
+/**
+ * What happens when a message is queued while the queue is full: drop the oldest queued message, drop the new
+ * message, or throw a {@link SendQueueOverflowError}
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+export type SendQueueOptions = {
+    limit?: number; // default: 100
+    overflow?: OverflowPolicy; // default: 'drop-oldest'
+};
+
+/**
+ * How `send()` turns values into frames; without one, values are sent as-is
+ */
+export type Serializer = 'json' | 'devalue' | ((value: unknown) => SocketData);
+
+export class SendQueueOverflowError extends Error {
+    constructor(public readonly limit: number) {
+        super(`Send queue is full (${limit} messages)`);
+        this.name = 'SendQueueOverflowError';
+    }
+}
+
+export function serializeMessage(value: unknown, serializer?: Serializer): SocketData {
+    if (serializer === 'json') return JSON.stringify(value);
+    if (serializer === 'devalue') return stringify(value);
+    if (typeof serializer === 'function') return serializer(value);
+    return value as SocketData;
+}
+
+/**
+ * Bounded FIFO of messages sent while the socket isn't open
+ */
+export class SendQueue<T = SocketData> {
+    private items: T[] = [];
+    readonly limit: number;
+    readonly overflow: OverflowPolicy;
+
+    constructor(options: SendQueueOptions = {}) {
+        this.limit = options.limit ?? 100;
+        this.overflow = options.overflow ?? 'drop-oldest';
+    }
+
+    get size() {
+        return this.items.length;
+    }
+
+    /**
+     * Queues a message, returns false when it was dropped
+     * @throws SendQueueOverflowError when the queue is full and the overflow policy is `error`
+     */
+    push(item: T): boolean {
+        if (this.limit <= 0) return false;
+        if (this.items.length >= this.limit) {
+            switch (this.overflow) {
+                case 'drop-newest':
+                    return false;
+                case 'error':
+                    throw new SendQueueOverflowError(this.limit);
+                default:
+                    this.items.shift();
+            }
+        }
+        this.items.push(item);
+        return true;
+    }
+
+    /**
+     * Sends the queued messages in order, returns how many were sent. When `send` throws, that message and the ones
+     * after it stay queued.
+     * @param send
+     */
+    flush(send: (item: T) => void): number {
+        let sent = 0;
+        try {
+            for (const item of this.items) {
+                send(item);
+                sent++;
+            }
+        } finally {
+            this.items.splice(0, sent);
+        }
+        return sent;
+    }
+
+    clear() {
+        this.items = [];
+    }
+}
@@ -0,0 +1,33 @@
+import {describe, expect, it} from 'vitest';
+import {backoffDelay, DEFAULT_RECONNECT_OPTIONS, reconnectDecision, resolveReconnectOptions} from './reconnect.js';
+
+describe('reconnect', () => {
+    it('grows the delay exponentially up to the maximum', () => {
+        const options = resolveReconnectOptions({delay: 100, maxDelay: 1000, jitter: 0})!;
+
+        expect([0, 1, 2, 3, 4, 10].map((attempt) => backoffDelay(attempt, options))).toEqual([100, 200, 400, 800, 1000, 1000]);
+    });
+
+    it('randomizes the jitter fraction of the delay', () => {
+        const options = resolveReconnectOptions({delay: 1000, jitter: 0.5})!;
+
+        expect(backoffDelay(0, options, () => 0)).toBe(500);
+        expect(backoffDelay(0, options, () => 1)).toBe(1000);
+    });
+
+    it('stops on skipped close codes and gives up after the maximum attempts', () => {
+        const options = resolveReconnectOptions({maxAttempts: 3})!;
+
+        expect(reconnectDecision(1006, 0, options)).toBe('retry');
+        expect(reconnectDecision(undefined, 2, options)).toBe('retry');
+        expect(reconnectDecision(1006, 3, options)).toBe('give-up');
+        expect(reconnectDecision(1000, 0, options)).toBe('stop');
+        expect(reconnectDecision(1008, 0, options)).toBe('stop');
+    });
+
+    it('resolves the reconnect prop', () => {
+        expect(resolveReconnectOptions(false)).toBeUndefined();
+        expect(resolveReconnectOptions(undefined)).toBe(DEFAULT_RECONNECT_OPTIONS);
+        expect(resolveReconnectOptions({skipCodes: []})?.skipCodes).toEqual([]);
+    });
+});
@@ -0,0 +1,63 @@
+export type ReconnectOptions = {
+    /**
+     * Delay before the first retry in ms (default: 500)
+     */
+    delay?: number;
+    maxDelay?: number; // default: 30000
+    factor?: number; // growth per attempt, default: 2
+    /**
+     * Fraction of each delay that is randomized, so clients dropped together don't retry together (default: 0.5)
+     */
+    jitter?: number;
+    maxAttempts?: number; // default: unlimited
+    /**
+     * Close codes after which no reconnect is attempted (default: 1000 normal closure, 1008 policy violation)
+     */
+    skipCodes?: number[];
+};
+
+export type ResolvedReconnectOptions = Required<ReconnectOptions>;
+
+export const DEFAULT_RECONNECT_OPTIONS: ResolvedReconnectOptions = {
+    delay: 500,
+    maxDelay: 30_000,
+    factor: 2,
+    jitter: 0.5,
+    maxAttempts: Infinity,
+    skipCodes: [1000, 1008]
+};
+
+/**
+ * Resolves the `reconnect` prop, undefined means reconnecting is disabled
+ * @param option
+ */
+export function resolveReconnectOptions(option: boolean | ReconnectOptions | undefined): ResolvedReconnectOptions | undefined {
+    if (option === false) return undefined;
+    if (option === true || option === undefined) return DEFAULT_RECONNECT_OPTIONS;
+    return {...DEFAULT_RECONNECT_OPTIONS, ...option};
+}
+
+/**
+ * Delay before retry number `attempt` (starting at 0): exponential backoff capped at `maxDelay`, of which the
+ * `jitter` fraction is random
+ * @param attempt
+ * @param options
+ * @param random
+ */
+export function backoffDelay(attempt: number, options: ResolvedReconnectOptions, random: () => number = Math.random): number {
+    const base = Math.min(options.maxDelay, options.delay * options.factor ** attempt);
+    const jitter = Math.min(Math.max(options.jitter, 0), 1);
+    return Math.round(base * (1 - jitter + jitter * random()));
+}
+
+/**
+ * What to do after a connection attempt failed or the socket closed: `retry`, `stop` for close codes that shouldn't
+ * be retried, or `give-up` when the attempts are exhausted
+ * @param code close code, undefined when no socket could be created (e.g. the action request failed)
+ * @param attempt retries made so far
+ * @param options
+ */
+export function reconnectDecision(code: number | undefined, attempt: number, options: ResolvedReconnectOptions): 'retry' | 'stop' | 'give-up' {
+    if (code !== undefined && options.skipCodes.includes(code)) return 'stop';
+    return attempt < options.maxAttempts ? 'retry' : 'give-up';
+}
@@ -0,0 +1,168 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {createSocket} from './socket.svelte.js';
+import {createPresence} from './presence.svelte.js';
+
+class FakeWebSocket {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+
+    readyState = FakeWebSocket.CONNECTING;
+    binaryType = 'blob';
+    sent: unknown[] = [];
+    onopen?: (event: Event) => void;
+    onclose?: (event: CloseEvent) => void;
+    onmessage?: (event: MessageEvent) => void;
+    onerror?: (event: Event) => void;
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: unknown) {
+        this.sent.push(data);
+    }
+
+    close(code = 1000) {
+        this.readyState = FakeWebSocket.CLOSED;
+        this.onclose?.({code} as CloseEvent);
+    }
+
+    // Test helpers
+    accept() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.(new Event('open'));
+    }
+
+    receive(data: unknown) {
+        this.onmessage?.({data} as MessageEvent);
+    }
+}
+
+beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('createSocket', () => {
+    it('queues messages until the socket opens and pipes received messages', async () => {
+        const socket = createSocket<{ n: number }>({url: 'ws://test/feed', parse: 'json', serialize: 'json', maxMessages: 2});
+        await socket.open();
+        const ws = FakeWebSocket.instances[0];
+
+        expect(socket.state).toBe('connecting');
+        expect(socket.send({hello: true})).toBe(true);
+        expect(socket.queued).toBe(1);
+
+        ws.accept();
+        expect(socket.state).toBe('open');
+        expect(ws.sent).toEqual(['{"hello":true}']);
+
+        for (const n of [1, 2, 3]) ws.receive(JSON.stringify({n}));
+        expect(socket.messages).toEqual([{n: 2}, {n: 3}]);
+        expect(socket.lastMessage).toEqual({n: 3});
+
+        socket.close();
+        expect(socket.state).toBe('closed');
+    });
+
+    it('bounds the history by default and applies a changed maxMessages', async () => {
+        const options: { url: string, maxMessages?: number } = {url: 'ws://test/feed'};
+        const socket = createSocket<string>(options);
+        await socket.open();
+        const ws = FakeWebSocket.instances[0];
+        ws.accept();
+
+        for (let i = 0; i < 1005; i++) ws.receive(String(i));
+        expect(socket.messages).toHaveLength(1000);
+        expect(socket.messages[0]).toBe('5');
+
+        options.maxMessages = 2;
+        ws.receive('last');
+        expect(socket.messages).toEqual(['1004', 'last']);
+        socket.close();
+    });
+
+    it('keeps the last message apart from the history and replaces the history with setMessages', () => {
+        const socket = createSocket<string>({url: 'ws://test/feed', data: ['a', 'b'], maxMessages: 0});
+        expect(socket.lastMessage).toBe('b');
+        expect(socket.messages).toEqual([]);
+
+        const other = createSocket<string>({url: 'ws://test/feed', data: ['a', 'b']});
+        // Same length, different array
+        other.setMessages(['c', 'd']);
+        expect(other.messages).toEqual(['c', 'd']);
+        expect(other.entries.map((entry) => entry.value)).toEqual(['c', 'd']);
+        expect(other.lastMessage).toBe('b');
+    });
+
+    it('reconnects after the connection is lost until closed', async () => {
+        vi.useFakeTimers();
+        const onreconnect = vi.fn();
+        const socket = createSocket({url: 'ws://test/feed', reconnect: {delay: 100, jitter: 0}, onreconnect});
+        await socket.open();
+        FakeWebSocket.instances[0].accept();
+
+        FakeWebSocket.instances[0].close(1006);
+        expect(socket.state).toBe('reconnecting');
+        expect(socket.attempts).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        FakeWebSocket.instances[1].accept();
+        expect(onreconnect).toHaveBeenCalledWith(1);
+        expect(socket.attempts).toBe(0);
+
+        socket.close();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        expect(socket.state).toBe('closed');
+    });
+
+    it('keeps a presence list from presence frames, which skip the message history', async () => {
+        const onleave = vi.fn();
+        const presence = createPresence<{ tabs?: number }>({onleave});
+        const socket = createSocket({url: 'ws://test/chat', parse: 'json', presence});
+        await socket.open();
+        const ws = FakeWebSocket.instances[0];
+        ws.accept();
+
+        ws.receive('{"event":"presence_state","data":{"ada":{},"grace":{}}}');
+        ws.receive('{"event":"presence_diff","data":{"joins":{"linus":{}},"leaves":{"grace":{}},"updates":{}}}');
+        ws.receive('{"event":"chat","data":"hi"}');
+
+        expect(presence.list).toEqual([{key: 'ada', state: {}}, {key: 'linus', state: {}}]);
+        expect(presence.has('grace')).toBe(false);
+        expect(onleave).toHaveBeenCalledWith('grace', {});
+        expect(socket.messages).toEqual([{event: 'chat', data: 'hi'}]);
+
+        // A reconnect sends the full state again, which replaces the list
+        ws.receive('{"event":"presence_state","data":{"ada":{}}}');
+        expect(presence.size).toBe(1);
+        socket.close();
+    });
+
+    it('only takes RPC frames out of the messages once procedures or calls are used', async () => {
+        const socket = createSocket<string>({url: 'ws://test/feed'});
+        await socket.open();
+        const ws = FakeWebSocket.instances[0];
+        ws.accept();
+
+        const frame = '{"$rpc":"request","id":"1","method":"ping"}';
+        ws.receive(frame);
+        expect(socket.messages).toEqual([frame]);
+        expect(ws.sent).toEqual([]);
+
+        const result = socket.call('getState');
+        ws.receive('{"$rpc":"response","id":"1","result":"ok"}');
+        await expect(result).resolves.toBe('ok');
+        expect(socket.messages).toEqual([frame]);
+        socket.close();
+    });
+});
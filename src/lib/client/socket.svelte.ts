@@ -0,0 +1,357 @@
+import { getContext, setContext } from "svelte";
+import { Action, ActionSocketError, type ActionSocketController, type SocketOptions } from "./actions.js";
+import { RpcError, RpcPeer } from "../shared/rpc.js";
+import { backoffDelay, reconnectDecision, resolveReconnectOptions } from "./reconnect.js";
+import { SendQueue, serializeMessage, type SocketData } from "./queue.js";
+import { DEFAULT_MAX_MESSAGES, parseMessage, RingBuffer, type HistoryEntry } from "./messages.js";
+
+export type SocketState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * A reactive connection created with {@link createSocket}
+ */
+export type Socket<T = any> = Omit<ActionSocketController, 'state'> & {
+    readonly state: SocketState,
+    /**
+     * Received messages, after `parse`, `filter` and `transform`, at most `maxMessages`
+     */
+    readonly messages: T[],
+    /**
+     * The messages with stable ids, for keyed `{#each}` blocks
+     */
+    readonly entries: HistoryEntry<T>[],
+    /**
+     * Latest received message, also kept with `maxMessages: 0`
+     */
+    readonly lastMessage: T | undefined,
+    /**
+     * Latest error, cleared when the socket opens
+     */
+    readonly error: ActionSocketError | undefined,
+    /**
+     * Controller in the shape the component's `controller` snippet receives
+     */
+    readonly controller: ActionSocketController,
+    /**
+     * Replaces the received messages, e.g. with `[]` to clear them
+     */
+    setMessages(messages: T[]): void
+}
+
+/**
+ * Creates a reactive WebSocket connection with everything the component does: action or url connections,
+ * reconnecting, an offline send queue, message parsing and RPC calls. Options are read when they are used, so
+ * passing a reactive object (such as component props) keeps them up to date. In the browser the socket opens right
+ * away unless `auto_open` is false.
+ * @param options
+ */
+export function createSocket<T = any>(options: SocketOptions<T>): Socket<T> {
+    let ws = $state<WebSocket>();
+    let state = $state<SocketState>('idle');
+    let error = $state.raw<ActionSocketError>();
+    let attempts = $state(0);
+    let queued = $state(0);
+    let nextId = 0;
+    // Keyed by a stable id, so trimming the history doesn't re-render the messages that stay. The values are kept
+    // alongside, so `messages` is a copy of its buffer instead of a mapping over the entries.
+    let history = new RingBuffer<HistoryEntry<T>>(0);
+    let values = new RingBuffer<T>(0);
+    // Latest message, kept apart from the buffers so `maxMessages: 0` still has one
+    let last: T | undefined = options.data?.at(-1);
+    // Bumped on every change of the (non-reactive) buffers; the snapshots below are only taken when read
+    let version = $state(0);
+    const capacity = () => Math.max(0, options.maxMessages ?? DEFAULT_MAX_MESSAGES);
+    const toEntries = (items: T[]) => items.map((value) => ({ id: nextId++, value }));
+    const fill = (items: HistoryEntry<T>[]) => {
+        history = new RingBuffer(capacity());
+        values = new RingBuffer(capacity());
+        for (const entry of items.slice(Math.max(items.length - history.capacity, 0))) {
+            history.push(entry);
+            values.push(entry.value);
+        }
+        version++;
+    }
+    fill(toEntries(options.data ?? []));
+    const entries = $derived.by(() => {
+        void version;
+        return history.toArray();
+    });
+    const messages = $derived.by(() => {
+        void version;
+        return values.toArray();
+    });
+    const lastMessage = $derived.by(() => {
+        void version;
+        return last;
+    });
+
+    // The queue lives as long as the socket, later changes of the option don't replace it
+    const queue = options.queue === false ? undefined : new SendQueue<SocketData>(options.queue);
+    let rpc: RpcPeer | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    // Set by close(), so the close that follows doesn't schedule a retry
+    let stopped = false;
+
+    const fail = (reason: unknown) => {
+        error = reason instanceof ActionSocketError ? reason : new ActionSocketError(reason);
+        options.onerror?.(error);
+    }
+
+    const cancelRetry = () => {
+        clearTimeout(retryTimer);
+        retryTimer = undefined;
+    }
+
+    const scheduleRetry = (event?: CloseEvent) => {
+        const reconnect = resolveReconnectOptions(options.reconnect ?? true);
+        if (stopped || !reconnect) {
+            state = 'closed';
+            return;
+        }
+        switch (reconnectDecision(event?.code, attempts, reconnect)) {
+            case 'stop':
+                state = 'closed';
+                return;
+            case 'give-up':
+                state = 'closed';
+                options.ongiveup?.(attempts, event);
+                return;
+        }
+        const delay = backoffDelay(attempts, reconnect);
+        attempts++;
+        state = 'reconnecting';
+        retryTimer = setTimeout(() => {
+            retryTimer = undefined;
+            void connect();
+        }, delay);
+    }
+
+    const receive = (event: MessageEvent) => {
+        let message;
+        try {
+            message = parseMessage(event.data, options.parse);
+        } catch (e) {
+            fail(e);
+            return;
+        }
+        if (options.filter && !options.filter(message, event)) return;
+        const value: T = options.transform ? options.transform(message, event) : message;
+        last = value;
+        // A changed `maxMessages` applies from the next message on
+        if (history.capacity !== capacity()) fill(history.toArray());
+        history.push({ id: nextId++, value });
+        values.push(value);
+        version++;
+    }
+
+    async function connect() {
+        state = attempts > 0 ? 'reconnecting' : 'connecting';
+        let url: string;
+        let protocols: (string | string[])
+        if ('action' in options && options.action) {
+            // Every attempt needs a fresh connection key, the previous one was consumed
+            try {
+                const result = await Action(options.action, options.init, options.devalue ?? true);
+                url = result.url;
+                protocols = result.protocols
+            } catch (e) {
+                fail(e);
+                scheduleRetry();
+                return;
+            }
+            if (stopped) return;
+        } else if ('url' in options && options.url) {
+            url = options.url instanceof URL ? options.url.toString() : options.url;
+            protocols = options.protocols ? options.protocols : [];
+        } else {
+            state = 'closed';
+            fail('url or action is required');
+            return;
+        }
+
+        const socket = new WebSocket(url, protocols);
+        const peer = new RpcPeer({
+            send: (frame) => socket.send(frame),
+            resolve: (method) => {
+                const procedures = options.procedures ?? {};
+                return Object.hasOwn(procedures, method) ? procedures[method] : undefined;
+            },
+            timeout: options.rpcTimeout
+        });
+        ws = socket;
+        rpc = peer;
+        socket.binaryType = options.binaryType ? options.binaryType : 'arraybuffer';
+        socket.onmessage = (event) => {
+            // Like on the server, RPC-looking frames are regular messages until procedures or calls are used
+            const rpcActive = options.procedures !== undefined || peer.requested;
+            if (typeof event.data === 'string' && ((rpcActive && peer.handle(event.data)) || options.presence?.handle(event.data))) return;
+            options.onmessage?.(event)
+            receive(event);
+        }
+        socket.onopen = (event) => {
+            const retries = attempts;
+            attempts = 0;
+            error = undefined;
+            // Queued messages go out before anything sent from onopen
+            try {
+                queue?.flush((message) => socket.send(message));
+            } catch (e) {
+                fail(e);
+            }
+            queued = queue?.size ?? 0;
+            state = 'open';
+            options.onopen?.(event)
+            if (retries > 0) options.onreconnect?.(retries);
+        }
+        socket.onclose = (event) => {
+            peer.rejectAll();
+            options.onclose?.(event)
+            // A socket replaced by reconnect() doesn't affect the current one
+            if (ws !== socket) return;
+            scheduleRetry(event);
+        }
+        socket.onerror = (event) => {
+            fail(event);
+        }
+    }
+
+    const open = async () => {
+        if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) return;
+        stopped = false;
+        cancelRetry();
+        await connect();
+    }
+
+    const close = (code?: number, reason?: string) => {
+        stopped = true;
+        cancelRetry();
+        attempts = 0;
+        if (state !== 'idle') state = 'closed';
+        if (!ws) return
+        if (ws.readyState === WebSocket.CLOSING || ws.readyState === WebSocket.CLOSED) return
+        ws.close(code, reason)
+    }
+
+    const reconnect = async () => {
+        const previous = ws;
+        stopped = false;
+        cancelRetry();
+        ws = undefined;
+        previous?.close();
+        await connect();
+    }
+
+    const send = (value: unknown) => {
+        const message = serializeMessage(value, options.serialize);
+        if (ws && ws.readyState === WebSocket.OPEN && !queue?.size) {
+            ws.send(message);
+            return true;
+        }
+        if (!queue) return false;
+        const accepted = queue.push(message);
+        queued = queue.size;
+        return accepted;
+    }
+
+    const call: ActionSocketController['call'] = (method, params, callOptions) => {
+        if (!rpc || !ws || ws.readyState !== WebSocket.OPEN) {
+            return Promise.reject(new RpcError('CLOSED', 'WebSocket is not open'));
+        }
+        return rpc.request(method, params, callOptions);
+    }
+
+    const controller: ActionSocketController = {
+        open,
+        close,
+        reconnect,
+        send,
+        call,
+        get websocket() {
+            return ws;
+        },
+        get isOpen() {
+            return state === 'open';
+        },
+        get state() {
+            return ws?.readyState;
+        },
+        get attempts() {
+            return attempts;
+        },
+        get reconnecting() {
+            return state === 'reconnecting';
+        },
+        get queued() {
+            return queued;
+        }
+    };
+
+    const socket: Socket<T> = {
+        open,
+        close,
+        reconnect,
+        send,
+        call,
+        controller,
+        setMessages(values) {
+            fill(toEntries(values));
+        },
+        get state() {
+            return state;
+        },
+        get messages() {
+            return messages;
+        },
+        get entries() {
+            return entries;
+        },
+        get lastMessage() {
+            return lastMessage;
+        },
+        get error() {
+            return error;
+        },
+        get websocket() {
+            return ws;
+        },
+        get isOpen() {
+            return state === 'open';
+        },
+        get attempts() {
+            return attempts;
+        },
+        get reconnecting() {
+            return state === 'reconnecting';
+        },
+        get queued() {
+            return queued;
+        }
+    };
+
+    if ((options.auto_open ?? true) && typeof window !== 'undefined') void socket.open();
+
+    return socket;
+}
+
+const SOCKET_CONTEXT = Symbol('sveltekit-websockets:socket');
+
+/**
+ * Shares a socket with the descendants of the current component, the `WebSocket` component does this for its own
+ * socket
+ * @param socket
+ * @param key to share several sockets side by side
+ */
+export function setSocketContext<T = any>(socket: Socket<T>, key: unknown = SOCKET_CONTEXT): Socket<T> {
+    return setContext(key, socket);
+}
+
+/**
+ * Returns the socket shared by an ancestor component
+ * @param key
+ * @throws Error when no ancestor shared a socket
+ */
+export function getSocketContext<T = any>(key: unknown = SOCKET_CONTEXT): Socket<T> {
+    const socket = getContext<Socket<T> | undefined>(key);
+    if (!socket) throw new Error('No socket in context, use setSocketContext() or the WebSocket component in a parent');
+    return socket;
+}
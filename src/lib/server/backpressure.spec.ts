@@ -0,0 +1,46 @@
+import {describe, expect, it, vi} from 'vitest';
+import {DrainWaiters} from './backpressure.js';
+
+describe('DrainWaiters', () => {
+    it('resolves right away when the buffer is under the limit', async () => {
+        const waiters = new DrainWaiters(() => 10);
+
+        await expect(waiters.wait(10)).resolves.toBe(true);
+        expect(waiters.size).toBe(0);
+    });
+
+    it('releases waiters in order once the buffer drains', async () => {
+        let buffered = 100;
+        const waiters = new DrainWaiters(() => buffered);
+        const order: string[] = [];
+
+        const first = waiters.wait(50).then((drained) => order.push(`first:${drained}`));
+        buffered = 0;
+        // Queued behind the first waiter even though the buffer is empty now
+        const second = waiters.wait(50).then((drained) => order.push(`second:${drained}`));
+        expect(waiters.size).toBe(2);
+
+        waiters.release();
+        await Promise.all([first, second]);
+
+        expect(order).toEqual(['first:true', 'second:true']);
+    });
+
+    it('gives up after the timeout or when cancelled', async () => {
+        vi.useFakeTimers();
+        try {
+            const waiters = new DrainWaiters(() => 100);
+
+            const timedOut = waiters.wait(0, 1000);
+            const cancelled = waiters.wait(0);
+            vi.advanceTimersByTime(1000);
+            await expect(timedOut).resolves.toBe(false);
+            expect(waiters.size).toBe(1);
+
+            waiters.cancel();
+            await expect(cancelled).resolves.toBe(false);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * What happens to a message for a socket whose send buffer is over `maxBufferedAmount`: skip it for that socket,
+ * terminate the socket, or hold the message until the buffer drains (and terminate the socket if it doesn't drain
+ * within `drainTimeout`)
+ */
+export type BackpressurePolicy = 'drop' | 'disconnect' | 'wait';
+
+export type BackpressureConfig = {
+    maxBufferedAmount: number; // in bytes
+    policy?: BackpressurePolicy; // default: 'drop'
+    drainTimeout?: number; // in milliseconds, default: 5000
+};
+
+/**
+ * Outcome of `broadcastAsync()` on this instance
+ */
+export type BroadcastResult = {
+    sent: number;
+    dropped: number; // skipped or disconnected slow consumers
+    errors: Error[];
+};
+
+export const DEFAULT_DRAIN_TIMEOUT = 5000;
+
+type DrainWaiter = {
+    limit: number;
+    resolve: (drained: boolean) => void;
+    timer?: NodeJS.Timeout;
+};
+
+/**
+ * Callers waiting for a send buffer to drain, released in order so messages held back keep their order
+ */
+export class DrainWaiters {
+    private waiters: DrainWaiter[] = [];
+
+    constructor(private readonly bufferedAmount: () => number) {
+    }
+
+    get size() {
+        return this.waiters.length;
+    }
+
+    /**
+     * Resolves with true once the buffer is at most `limit` bytes and everyone waiting before is released, or with
+     * false when {@link cancel} is called or `timeout` ms pass first
+     * @param limit
+     * @param timeout
+     */
+    wait(limit: number, timeout?: number): Promise<boolean> {
+        if (this.waiters.length === 0 && this.bufferedAmount() <= limit) return Promise.resolve(true);
+        return new Promise((resolve) => {
+            const waiter: DrainWaiter = {limit, resolve};
+            if (timeout !== undefined) {
+                waiter.timer = setTimeout(() => {
+                    this.waiters.splice(this.waiters.indexOf(waiter), 1);
+                    resolve(false);
+                    // Whoever waited behind this one may be good to go
+                    this.release();
+                }, timeout);
+            }
+            this.waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Releases the waiters whose limit the buffer is back under, call it whenever data was written
+     */
+    release() {
+        while (this.waiters.length > 0 && this.bufferedAmount() <= this.waiters[0].limit) {
+            const waiter = this.waiters.shift()!;
+            clearTimeout(waiter.timer);
+            waiter.resolve(true);
+        }
+    }
+
+    cancel() {
+        const waiters = this.waiters;
+        this.waiters = [];
+        for (const waiter of waiters) {
+            clearTimeout(waiter.timer);
+            waiter.resolve(false);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import {createServer, type Server} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterAll, beforeAll, bench, describe} from 'vitest';
+import {WebSocket} from 'ws';
+import {WebSockets, type WebSocketEndpointController} from './index.js';
+
+const CLIENTS = 200;
+const message = JSON.stringify({ticks: Array.from({length: 500}, (_, i) => ({id: i, price: i * 1.5, symbol: `SYM${i}`}))});
+
+let server: Server;
+let feed: WebSocketEndpointController;
+const clients: WebSocket[] = [];
+
+const broadcast = (send: (cb: (errors: Error[]) => void) => void) => new Promise<void>((resolve, reject) =>
+    send((errors) => errors.length > 0 ? reject(errors[0]) : resolve()));
+
+beforeAll(async () => {
+    WebSockets.useCompression({serverNoContextTakeover: true});
+    feed = WebSockets.continuous('/bench', {useConnectionKeys: false});
+    server = createServer();
+    server.on('upgrade', (req, socket, head) => WebSockets.upgrade(req, socket, head));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/bench`;
+    for (let i = 0; i < CLIENTS; i++) {
+        const client = new WebSocket(url);
+        await new Promise((resolve, reject) => client.once('open', resolve).once('error', reject));
+        clients.push(client);
+    }
+});
+
+afterAll(async () => {
+    for (const client of clients) client.terminate();
+    WebSockets.clear();
+    WebSockets.useCompression(false);
+    await new Promise((resolve) => server.close(resolve));
+});
+
+describe(`compressed broadcast of ${message.length} bytes to ${CLIENTS} sockets`, () => {
+    bench('broadcast (compressed per socket)', () => broadcast((cb) => feed.broadcast(message, {compress: true}, cb)));
+
+    bench('broadcastPrepared (compressed once)', () => broadcast((cb) => feed.broadcastPrepared(message, {compress: true}, cb)));
+});
+
+describe(`uncompressed broadcast of ${message.length} bytes to ${CLIENTS} sockets`, () => {
+    bench('broadcast', () => broadcast((cb) => feed.broadcast(message, {compress: false}, cb)));
+
+    bench('broadcastPrepared', () => broadcast((cb) => feed.broadcastPrepared(message, {compress: false}, cb)));
+});
@@ -0,0 +1,91 @@
+import {createServer, type Server} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {WebSocket} from 'ws';
+import {decodePayload, encodePayload, LoopbackBus, type BrokerPacket} from './broker.js';
+import {WebSocketEndpointController, WebSockets, type ReferencedWebSocket} from './index.js';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('broker payloads', () => {
+    it('round-trips text and binary data', () => {
+        expect(decodePayload(encodePayload('hello'))).toBe('hello');
+        expect(decodePayload(encodePayload(Buffer.from([1, 2, 3])))).toEqual(Buffer.from([1, 2, 3]));
+        expect(decodePayload(encodePayload(new Uint8Array([4, 5]).buffer))).toEqual(Buffer.from([4, 5]));
+        expect(decodePayload(encodePayload(new Uint16Array([1])))).toEqual(Buffer.from(new Uint16Array([1]).buffer));
+    });
+});
+
+describe('LoopbackBus', () => {
+    it('delivers packets to every other node only', async () => {
+        const bus = new LoopbackBus();
+        const a = bus.connect('a');
+        const b = bus.connect('b');
+        const received = {a: [] as BrokerPacket[], b: [] as BrokerPacket[]};
+        a.subscribe((packet) => received.a.push(packet));
+        b.subscribe((packet) => received.b.push(packet));
+
+        a.publish({node: 'a', path: '/chat', message: {type: 'presence_request'}});
+        await flush();
+
+        expect(received.a).toEqual([]);
+        expect(received.b).toEqual([{node: 'a', path: '/chat', message: {type: 'presence_request'}}]);
+    });
+});
+
+describe('brokered endpoints', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+        WebSockets.useBroker(undefined);
+        WebSockets.clear();
+        if (server) await new Promise((resolve) => server!.close(resolve));
+        server = undefined;
+    });
+
+    it('forwards broadcasts, room broadcasts, targeted sends and presence between nodes', async () => {
+        const bus = new LoopbackBus();
+        WebSockets.useBroker(bus.connect('node-a'));
+        const nodeA = WebSockets.continuous('/cluster', {useConnectionKeys: false});
+        const nodeB = new WebSocketEndpointController('/cluster', {useConnectionKeys: false, broker: bus.connect('node-b')});
+
+        server = createServer();
+        server.on('upgrade', (req, socket, head) => WebSockets.upgrade(req, socket, head));
+        await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+        const connected = new Promise<ReferencedWebSocket>((resolve) => nodeA.once('connect', resolve));
+        const client = new WebSocket(`ws://127.0.0.1:${(server.address() as AddressInfo).port}/cluster`);
+        const messages: string[] = [];
+        client.on('message', (data) => messages.push(data.toString()));
+        const socket = await connected;
+        socket.join('red');
+        await flush();
+
+        expect(nodeB.locate(socket.ref)).toBe('node-a');
+
+        nodeB.broadcast('to everyone');
+        nodeB.to('blue').broadcast('to blue');
+        nodeB.to('red').broadcast('to red');
+        expect(nodeB.send(socket.ref, 'direct')).toBe(true);
+        nodeB.broadcast('filtered', {filter: () => true});
+        await vi.waitFor(() => expect(messages).toEqual(['to everyone', 'to red', 'direct']));
+
+        client.close();
+        await vi.waitFor(() => expect(nodeB.locate(socket.ref)).toBeUndefined());
+        nodeB.destroy();
+    });
+
+    it('forgets the sockets of nodes that go down', async () => {
+        const bus = new LoopbackBus();
+        const a = bus.connect('a');
+        const nodeB = new WebSocketEndpointController('/cluster', {broker: bus.connect('b')});
+
+        a.publish({node: 'a', path: '/cluster', message: {type: 'presence', action: 'join', refs: ['one', 'two']}});
+        await flush();
+        expect(nodeB.getConnectionsInfo().remoteConnections).toBe(2);
+
+        a.close();
+        await flush();
+        expect(nodeB.getConnectionsInfo().remoteConnections).toBe(0);
+        nodeB.destroy();
+    });
+});
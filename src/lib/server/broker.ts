@@ -0,0 +1,201 @@
+import cluster, {type Worker} from 'node:cluster';
+import {randomUUID} from 'node:crypto';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Message payload in a form that survives JSON/IPC serialization
+ */
+export type BrokerPayload =
+    | { kind: 'text'; value: string }
+    | { kind: 'binary'; value: string }; // base64
+
+export type BrokerSendOptions = {
+    binary?: boolean;
+    compress?: boolean;
+};
+
+export type BrokerMessage =
+    | { type: 'broadcast'; payload: BrokerPayload; options?: BrokerSendOptions; rooms?: string[] }
+    | { type: 'send'; ref: string; payload: BrokerPayload; options?: BrokerSendOptions }
+    | { type: 'presence'; action: 'join' | 'leave' | 'sync'; refs: string[] }
+    | { type: 'presence_request' }
+    | { type: 'node_down' };
+
+export type BrokerPacket = {
+    node: string;
+    path: string;
+    message: BrokerMessage;
+};
+
+/**
+ * Transport between server instances. Implementations deliver published packets to every other node;
+ * packets published by a node are never handed back to that same node.
+ */
+export interface BrokerAdapter {
+    readonly nodeId: string;
+
+    publish(packet: BrokerPacket): MaybePromise<void>;
+
+    /**
+     * Registers a packet handler, returns a function that removes it
+     */
+    subscribe(handler: (packet: BrokerPacket) => void): () => void;
+
+    close?(): MaybePromise<void>;
+}
+
+export function encodePayload(data: unknown): BrokerPayload {
+    if (typeof data === 'string') return {kind: 'text', value: data};
+    if (Buffer.isBuffer(data)) return {kind: 'binary', value: data.toString('base64')};
+    if (data instanceof ArrayBuffer || data instanceof SharedArrayBuffer) {
+        return {kind: 'binary', value: Buffer.from(data).toString('base64')};
+    }
+    if (ArrayBuffer.isView(data)) {
+        return {kind: 'binary', value: Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('base64')};
+    }
+    if (Array.isArray(data)) return {kind: 'binary', value: Buffer.from(data).toString('base64')};
+    return {kind: 'text', value: String(data)};
+}
+
+export function decodePayload(payload: BrokerPayload): string | Buffer {
+    return payload.kind === 'text' ? payload.value : Buffer.from(payload.value, 'base64');
+}
+
+type Subscriber = (packet: BrokerPacket) => void;
+
+/**
+ * In-process bus connecting several {@link LoopbackBroker}s, for tests and single-process setups
+ */
+export class LoopbackBus {
+    private nodes = new Map<string, Set<Subscriber>>();
+
+    /**
+     * Creates a broker for a (simulated) node on this bus
+     * @param nodeId
+     */
+    connect(nodeId: string = randomUUID()): LoopbackBroker {
+        return new LoopbackBroker(this, nodeId);
+    }
+
+    /** @internal */
+    attach(nodeId: string, subscriber: Subscriber) {
+        let subscribers = this.nodes.get(nodeId);
+        if (!subscribers) {
+            subscribers = new Set();
+            this.nodes.set(nodeId, subscribers);
+        }
+        subscribers.add(subscriber);
+        return () => {
+            subscribers.delete(subscriber);
+        };
+    }
+
+    /** @internal */
+    detach(nodeId: string) {
+        this.nodes.delete(nodeId);
+    }
+
+    /** @internal */
+    deliver(packet: BrokerPacket) {
+        // Clone like a real transport would, so nodes never share object references
+        const copy = structuredClone(packet);
+        for (const [nodeId, subscribers] of this.nodes) {
+            if (nodeId === packet.node) continue;
+            for (const subscriber of subscribers) subscriber(copy);
+        }
+    }
+}
+
+export class LoopbackBroker implements BrokerAdapter {
+    constructor(private readonly bus: LoopbackBus, public readonly nodeId: string) {
+    }
+
+    publish(packet: BrokerPacket) {
+        // Deliver asynchronously, like a network hop
+        queueMicrotask(() => this.bus.deliver(packet));
+    }
+
+    subscribe(handler: Subscriber) {
+        return this.bus.attach(this.nodeId, handler);
+    }
+
+    close() {
+        this.bus.detach(this.nodeId);
+        this.bus.deliver({node: this.nodeId, path: '*', message: {type: 'node_down'}});
+    }
+}
+
+const IPC_CHANNEL = 'sveltekit-websockets:broker';
+
+type IpcEnvelope = { [IPC_CHANNEL]: BrokerPacket };
+
+const isIpcEnvelope = (message: unknown): message is IpcEnvelope =>
+    typeof message === 'object' && message !== null && IPC_CHANNEL in message;
+
+const workerNodeId = (worker: Worker) => `worker-${worker.id}`;
+
+/**
+ * Broker for Node `cluster` workers over the built-in IPC channel. The primary process must call
+ * {@link ClusterBroker.relay} once to forward packets between workers.
+ */
+export class ClusterBroker implements BrokerAdapter {
+    readonly nodeId: string;
+    private subscribers = new Set<Subscriber>();
+    private listener = (message: unknown) => {
+        if (!isIpcEnvelope(message)) return;
+        const packet = message[IPC_CHANNEL];
+        if (packet.node === this.nodeId) return;
+        for (const subscriber of this.subscribers) subscriber(packet);
+    };
+
+    constructor() {
+        if (!cluster.isWorker || !cluster.worker || !process.send) {
+            throw new Error('ClusterBroker must be created in a cluster worker');
+        }
+        this.nodeId = workerNodeId(cluster.worker);
+        process.on('message', this.listener);
+    }
+
+    publish(packet: BrokerPacket) {
+        process.send?.({[IPC_CHANNEL]: packet} satisfies IpcEnvelope);
+    }
+
+    subscribe(handler: Subscriber) {
+        this.subscribers.add(handler);
+        return () => {
+            this.subscribers.delete(handler);
+        };
+    }
+
+    close() {
+        this.subscribers.clear();
+        process.off('message', this.listener);
+    }
+
+    /**
+     * Forwards broker packets between workers and announces workers that exit; call this in the primary process
+     * @returns a function that stops relaying
+     */
+    static relay(): () => void {
+        if (!cluster.isPrimary) throw new Error('ClusterBroker.relay() must be called in the primary process');
+
+        const forward = (packet: BrokerPacket, from?: Worker) => {
+            for (const worker of Object.values(cluster.workers ?? {})) {
+                if (!worker || worker === from || !worker.isConnected()) continue;
+                worker.send({[IPC_CHANNEL]: packet} satisfies IpcEnvelope);
+            }
+        };
+        const onMessage = (worker: Worker, message: unknown) => {
+            if (isIpcEnvelope(message)) forward(message[IPC_CHANNEL], worker);
+        };
+        const onExit = (worker: Worker) => forward({node: workerNodeId(worker), path: '*', message: {type: 'node_down'}}, worker);
+
+        cluster.on('message', onMessage);
+        cluster.on('exit', onExit);
+        return () => {
+            cluster.off('message', onMessage);
+            cluster.off('exit', onExit);
+        };
+    }
+}
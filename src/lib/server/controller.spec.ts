@@ -1,14 +1,39 @@
-import {describe, expect, it} from 'vitest';
-import {WebSocketEndpointController} from './index.js';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {MemoryConnectionKeyStore, WebSockets, WebSocketEndpointController} from './index.js';
 
 type ControllerInternals = {
     cleanupTimer?: NodeJS.Timeout
-    pendingKeys: Map<string, { expiresAt: number }>
+    keyStore: MemoryConnectionKeyStore
     rateLimitMap: Map<string, { count: number; resetTime: number }>
     cleanupExpiredState(): void
 }
 
+afterEach(() => {
+    WebSockets.useLogger(undefined);
+});
+
 describe('WebSocketEndpointController', () => {
+    it('logs background errors when nobody listens for error events', async () => {
+        const failure = new Error('store down');
+        const controller = new WebSocketEndpointController('/test', {
+            keyStore: {issue: () => 'key', consume: () => undefined, expire: () => Promise.reject(failure)}
+        });
+        const internals = controller as unknown as ControllerInternals;
+        const logger = {debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn()};
+        WebSockets.useLogger(logger);
+
+        expect(() => internals.cleanupExpiredState()).not.toThrow();
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith('WebSocket endpoint error', expect.objectContaining({error: failure})));
+
+        const errors: Error[] = [];
+        controller.on('error', (error) => errors.push(error));
+        internals.cleanupExpiredState();
+        await vi.waitFor(() => expect(errors).toEqual([failure]));
+        expect(logger.error).toHaveBeenCalledTimes(1);
+
+        controller.destroy();
+    });
+
     it('clears its pending-key cleanup interval when destroyed', () => {
         const controller = new WebSocketEndpointController('/test', {});
         const internals = controller as unknown as ControllerInternals;
@@ -25,12 +50,8 @@ describe('WebSocketEndpointController', () => {
         const internals = controller as unknown as ControllerInternals;
         const now = Date.now();
 
-        internals.pendingKeys.set('expired', {
-            expiresAt: now - 1
-        } as { expiresAt: number });
-        internals.pendingKeys.set('active', {
-            expiresAt: now + 1000
-        } as { expiresAt: number });
+        const expired = internals.keyStore.issue({path: '/test', issuedAt: now - 2, expiresAt: now - 1});
+        const active = internals.keyStore.issue({path: '/test', issuedAt: now, expiresAt: now + 1000});
         internals.rateLimitMap.set('expired', {
             count: 1,
             resetTime: now - 1
@@ -42,11 +63,73 @@ describe('WebSocketEndpointController', () => {
 
         internals.cleanupExpiredState();
 
-        expect(internals.pendingKeys.has('expired')).toBe(false);
-        expect(internals.pendingKeys.has('active')).toBe(true);
+        expect(internals.keyStore.size).toBe(1);
+        expect(internals.keyStore.consume(expired, '/test')).toBeUndefined();
+        expect(internals.keyStore.consume(active, '/test')).toBeDefined();
         expect(internals.rateLimitMap.has('expired')).toBe(false);
         expect(internals.rateLimitMap.has('active')).toBe(true);
 
         controller.destroy();
     });
+
+    it('redeems connection keys once, only for the issuing path', async () => {
+        const controller = new WebSocketEndpointController('/test', {});
+        const other = new WebSocketEndpointController('/other', {keyStore: (controller as unknown as ControllerInternals).keyStore});
+        const internals = controller as unknown as { validateConnectionKey(key: string): Promise<unknown> };
+
+        const key = controller.generatePendingConnectionKey();
+        const foreign = other.generatePendingConnectionKey();
+
+        expect(await internals.validateConnectionKey(key)).toMatchObject({path: '/test'});
+        expect(await internals.validateConnectionKey(key)).toBeUndefined();
+        expect(await internals.validateConnectionKey(foreign)).toBeUndefined();
+
+        controller.destroy();
+        other.destroy();
+    });
+
+    it('requires issueUrl() for asynchronous key stores', async () => {
+        const store = new MemoryConnectionKeyStore();
+        const controller = new WebSocketEndpointController('/test', {
+            keyStore: {
+                issue: async (claims) => store.issue(claims),
+                consume: async (key, path) => store.consume(key, path)
+            }
+        });
+
+        expect(() => controller.new).toThrow(/issueUrl/);
+        expect(await controller.issueUrl()).toMatch(/^\/test\?key=/);
+
+        controller.destroy();
+    });
+
+    it('derives key claims from the issuing request', async () => {
+        const controller = new WebSocketEndpointController('/test', {
+            claims: {
+                subject: (event) => event.locals.user?.id,
+                metadata: (event) => ({name: event.locals.user?.name}),
+                bindAddress: true,
+                bindOrigin: true
+            }
+        });
+        const internals = controller as unknown as { validateConnectionKey(key: string): Promise<unknown> };
+        const event = {
+            url: new URL('https://app.example/page'),
+            locals: {user: {id: 'u1', name: 'Ada'}},
+            getClientAddress: () => '10.0.0.1'
+        };
+
+        const key = controller.generatePendingConnectionKey({event, metadata: {tab: 2}});
+
+        expect(await internals.validateConnectionKey(key)).toMatchObject({
+            path: '/test',
+            subject: 'u1',
+            address: '10.0.0.1',
+            origin: 'https://app.example',
+            metadata: {name: 'Ada', tab: 2}
+        });
+        expect(() => controller.new).toThrow(/bindAddress/);
+
+        controller.destroy();
+    });
 });
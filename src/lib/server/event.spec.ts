@@ -0,0 +1,42 @@
+import type {IncomingMessage} from 'node:http';
+import {describe, expect, it} from 'vitest';
+import {createUpgradeEvent, parseCookies, runUpgradeHook} from './event.js';
+
+const request = (headers: Record<string, string | string[]>) => ({method: 'GET', headers}) as unknown as IncomingMessage;
+
+describe('upgrade events', () => {
+    it('parses cookie headers', () => {
+        const cookies = parseCookies('session=abc%20def; theme="dark"; session=ignored; broken=%E0%A4%A; flag');
+
+        expect(Object.fromEntries(cookies)).toEqual({session: 'abc def', theme: 'dark', broken: '%E0%A4%A'});
+        expect(parseCookies(undefined).size).toBe(0);
+    });
+
+    it('exposes the request like a RequestEvent', () => {
+        const event = createUpgradeEvent(request({cookie: 'session=abc', 'x-custom': ['a', 'b']}), {
+            url: new URL('http://localhost/rooms/1?x=1'),
+            route: '/rooms/[id]',
+            params: {id: '1'},
+            clientAddress: '203.0.113.7'
+        });
+
+        expect(event.cookies.get('session')).toBe('abc');
+        expect(event.cookies.getAll()).toEqual([{name: 'session', value: 'abc'}]);
+        expect(event.route.id).toBe('/rooms/[id]');
+        expect(event.getClientAddress()).toBe('203.0.113.7');
+        expect(event.request.headers.get('x-custom')).toBe('a, b');
+        expect(event.request.url).toBe('http://localhost/rooms/1?x=1');
+    });
+
+    it('continues with a 200 response when the hook resolves', async () => {
+        const event = createUpgradeEvent(request({}), {url: new URL('http://localhost/'), route: '/'});
+        const response = await runUpgradeHook(({event, resolve}) => {
+            event.locals.user = 'ada';
+            return resolve(event);
+        }, event);
+
+        expect(response.status).toBe(200);
+        expect(event.locals).toEqual({user: 'ada'});
+        expect(() => event.getClientAddress()).toThrow();
+    });
+});
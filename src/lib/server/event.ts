@@ -0,0 +1,106 @@
+import type {IncomingMessage} from 'node:http';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Read-only cookies of an upgrade request; a 101 response can't set cookies
+ */
+export type UpgradeCookies = {
+    get(name: string): string | undefined;
+    getAll(): { name: string, value: string }[];
+};
+
+/**
+ * The SvelteKit `RequestEvent` parts that make sense for a WebSocket upgrade, so hooks and auth code written against
+ * `RequestEvent` work for sockets too
+ */
+export type UpgradeEvent = {
+    url: URL;
+    params: Record<string, string>; // route params, see `ReferencedWebSocket.params` for the query params too
+    route: { id: string };
+    cookies: UpgradeCookies;
+    locals: Record<string, any>;
+    request: Request;
+    getClientAddress(): string;
+};
+
+export type UpgradeResolve = (event: UpgradeEvent) => MaybePromise<Response>;
+
+/**
+ * A `handle`-style hook run before the upgrade. It fills `event.locals` and either returns `resolve(event)` to
+ * continue, or a response with a status of 300 or more to decline the upgrade with that status.
+ */
+export type UpgradeHook = (input: { event: UpgradeEvent, resolve: UpgradeResolve }) => MaybePromise<Response>;
+
+/**
+ * Parses a `Cookie` header, the first occurrence of a name wins
+ * @param header
+ */
+export function parseCookies(header: string | undefined): Map<string, string> {
+    const cookies = new Map<string, string>();
+    if (!header) return cookies;
+    for (const pair of header.split(';')) {
+        const index = pair.indexOf('=');
+        if (index === -1) continue;
+        const name = pair.slice(0, index).trim();
+        if (!name || cookies.has(name)) continue;
+        let value = pair.slice(index + 1).trim();
+        if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+        try {
+            cookies.set(name, decodeURIComponent(value));
+        } catch {
+            cookies.set(name, value);
+        }
+    }
+    return cookies;
+}
+
+/**
+ * Builds the event for an upgrade request
+ * @param req
+ * @param options the route the request matched and the client address resolved for it
+ */
+export function createUpgradeEvent(req: IncomingMessage, options: {
+    url: URL,
+    route: string,
+    params?: Record<string, string>,
+    clientAddress?: string
+}): UpgradeEvent {
+    const cookies = parseCookies(req.headers.cookie);
+    let request: Request | undefined;
+    return {
+        url: options.url,
+        params: options.params ?? {},
+        route: {id: options.route},
+        cookies: {
+            get: (name) => cookies.get(name),
+            getAll: () => Array.from(cookies, ([name, value]) => ({name, value}))
+        },
+        locals: {},
+        // Built on first use, most upgrades never look at it
+        get request() {
+            if (!request) {
+                const headers = new Headers();
+                for (const [name, value] of Object.entries(req.headers)) {
+                    if (value === undefined) continue;
+                    for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+                }
+                request = new Request(options.url, {method: req.method, headers});
+            }
+            return request;
+        },
+        getClientAddress() {
+            if (options.clientAddress === undefined) throw new Error('Could not determine the client address');
+            return options.clientAddress;
+        }
+    };
+}
+
+/**
+ * Runs a hook for an upgrade, resolving to a 200 response when the hook lets it continue
+ * @param hook
+ * @param event
+ */
+export async function runUpgradeHook(hook: UpgradeHook, event: UpgradeEvent): Promise<Response> {
+    return hook({event, resolve: () => new Response(null, {status: 200})});
+}
@@ -0,0 +1,57 @@
+import {EventEmitter} from 'node:events';
+import {describe, expect, it} from 'vitest';
+import {HotModules} from './hot.js';
+
+describe('HotModules', () => {
+    it('removes the listeners of the previous version of a module', () => {
+        const hot = new HotModules<string>();
+        const emitter = new EventEmitter();
+        const calls: string[] = [];
+        const evaluate = (version: string) => {
+            const done = hot.begin('chat.ts');
+            const listener = () => calls.push(version);
+            hot.listener(emitter, 'message', listener);
+            emitter.on('message', listener);
+            done();
+        };
+
+        evaluate('v1');
+        evaluate('v2');
+        emitter.emit('message');
+
+        expect(calls).toEqual(['v2']);
+    });
+
+    it('returns the endpoints the new version no longer registers', () => {
+        const hot = new HotModules<string>();
+
+        let done = hot.begin('routes');
+        hot.endpoint('/chat');
+        hot.endpoint('/news');
+        expect(done()).toEqual([]);
+
+        done = hot.begin('routes');
+        expect(hot.endpoint('/chat')).toBe(true);
+        expect(hot.endpoint('/feed')).toBe(false);
+        expect(done()).toEqual(['/news']);
+    });
+
+    it('attributes endpoints to every module evaluating and listeners to the innermost', () => {
+        const hot = new HotModules<string>();
+        const emitter = new EventEmitter();
+        const listener = () => undefined;
+
+        const outer = hot.begin('routes');
+        const inner = hot.begin('route:/chat');
+        hot.endpoint('/chat');
+        hot.listener(emitter, 'message', listener);
+        emitter.on('message', listener);
+        inner();
+        outer();
+
+        hot.begin('routes')();
+        expect(emitter.listenerCount('message')).toBe(1);
+        expect(hot.begin('route:/chat')()).toEqual(['/chat']);
+        expect(emitter.listenerCount('message')).toBe(0);
+    });
+});
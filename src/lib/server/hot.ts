@@ -0,0 +1,68 @@
+import type {EventEmitter} from 'node:events';
+
+type Listener = (...args: any[]) => void;
+
+type HotRegistration<T> = {
+    listeners: [EventEmitter, string | symbol, Listener][];
+    endpoints: Set<T>;
+    previous?: Set<T>; // endpoints of the previous version of the module
+};
+
+/**
+ * Listeners and endpoints registered while a server module evaluates, so a new version of the module can take over
+ * from the old one, see `WebSockets.hot()`
+ */
+export class HotModules<T> {
+    private modules = new Map<string, HotRegistration<T>>();
+    private evaluating: HotRegistration<T>[] = [];
+
+    /**
+     * Starts evaluating a (new version of a) module and removes the listeners its previous version added. The returned
+     * function ends the evaluation and returns the endpoints the previous version registered but this one didn't.
+     * @param id
+     */
+    begin(id: string): () => T[] {
+        const previous = this.modules.get(id);
+        for (const [emitter, event, listener] of previous?.listeners ?? []) emitter.removeListener(event, listener);
+
+        const registration: HotRegistration<T> = {listeners: [], endpoints: new Set(), previous: previous?.endpoints};
+        this.modules.set(id, registration);
+        this.evaluating.push(registration);
+        const end = () => {
+            const index = this.evaluating.indexOf(registration);
+            if (index !== -1) this.evaluating.splice(index, 1);
+        };
+        // A module that threw never ends its evaluation, whatever is registered later isn't its doing
+        setImmediate(end).unref();
+
+        return () => {
+            end();
+            return Array.from(previous?.endpoints ?? []).filter((endpoint) => !registration.endpoints.has(endpoint));
+        };
+    }
+
+    /**
+     * Attributes a listener to the module evaluating now, if any
+     * @param emitter
+     * @param event
+     * @param listener
+     */
+    listener(emitter: EventEmitter, event: string | symbol, listener: Listener) {
+        this.evaluating.at(-1)?.listeners.push([emitter, event, listener]);
+    }
+
+    /**
+     * Attributes an endpoint to the modules evaluating now, returns true when the innermost one registered it in its
+     * previous version too
+     * @param endpoint
+     */
+    endpoint(endpoint: T): boolean {
+        for (const registration of this.evaluating) registration.endpoints.add(endpoint);
+        return this.evaluating.at(-1)?.previous?.has(endpoint) ?? false;
+    }
+
+    clear() {
+        this.modules.clear();
+        this.evaluating = [];
+    }
+}
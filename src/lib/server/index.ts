@@ -1,8 +1,129 @@
 import {WebSocketServer, WebSocket} from 'ws';
+import * as ws_module from 'ws';
 import type {Duplex} from 'node:stream';
-import type {IncomingMessage} from 'node:http';
-import {randomBytes, randomUUID} from "node:crypto";
+import {STATUS_CODES, type IncomingMessage} from 'node:http';
+import {randomUUID} from "node:crypto";
 import {EventEmitter} from "node:events";
+import {parseRoute, resolveRoute, RouteTable, type ParsedRoute} from "./routes.js";
+import {
+    encodeEvent,
+    parseEvent,
+    PROTOCOL_ERROR_EVENT,
+    ProtocolError,
+    rawToString,
+    type ProtocolConfig,
+    type ProtocolEvents
+} from "./protocol.js";
+import {RoomRegistry} from "./rooms.js";
+import {isRpcFrame, RpcError, RpcPeer, type RpcCallOptions} from "../shared/rpc.js";
+import {decodePayload, encodePayload, type BrokerAdapter, type BrokerMessage, type BrokerPacket} from "./broker.js";
+import {isOriginAllowed, type AllowedOrigins} from "./origins.js";
+import {negotiateProtocol, parseProtocols} from "./subprotocols.js";
+import {DEFAULT_DRAIN_TIMEOUT, DrainWaiters, type BackpressureConfig, type BackpressurePolicy, type BroadcastResult} from "./backpressure.js";
+import {prepareMessage, PreparedMessage, type PreparedMessageData, type PrepareOptions} from "./prepared.js";
+import {resolveClientAddress, type TrustProxy} from "./proxy.js";
+import {createUpgradeEvent, runUpgradeHook, type UpgradeEvent, type UpgradeHook} from "./event.js";
+import {TokenBucket, type MessageRateLimit, type RateLimitAction} from "./limits.js";
+import {HotModules} from "./hot.js";
+import {byteLength, WebSocketMetrics, type RejectionReason} from "./metrics.js";
+import {describeConfig, inspectHandler, type EndpointType, type InspectHandlerOptions, type Inspector} from "./inspect.js";
+import {instrument, defaultLogger, type Instrumentation, type Logger, type SpanEnd} from "./instrumentation.js";
+import {isBoundTo, isIssuedFor, MemoryConnectionKeyStore, type ConnectionKeyClaims, type ConnectionKeyStore} from "./keys.js";
+import {PresenceTracker, type PresenceConfig} from "./presence.js";
+import {PRESENCE_DIFF_EVENT, PRESENCE_STATE_EVENT, type PresenceDiff} from "../shared/presence.js";
+
+export {RoomRegistry} from "./rooms.js";
+export {RpcError, type RpcCallOptions, type RpcErrorCode} from "../shared/rpc.js";
+export {
+    ClusterBroker,
+    LoopbackBroker,
+    LoopbackBus,
+    type BrokerAdapter,
+    type BrokerMessage,
+    type BrokerPacket,
+    type BrokerPayload
+} from "./broker.js";
+export {
+    MemoryConnectionKeyStore,
+    SignedConnectionKeys,
+    type ConnectionKeyClaims,
+    type ConnectionKeyClient,
+    type ConnectionKeyStore,
+    type SignedConnectionKeysOptions
+} from "./keys.js";
+export {
+    compareRoutes,
+    matchRoute,
+    parseRoute,
+    resolveRoute,
+    RouteTable,
+    type ParsedRoute,
+    type RouteMatch
+} from "./routes.js";
+export {
+    decodeEvent,
+    encodeEvent,
+    PROTOCOL_ERROR_EVENT,
+    ProtocolError,
+    type PayloadValidator,
+    type ProtocolConfig,
+    type ProtocolEnvelope,
+    type ProtocolErrorCode,
+    type ProtocolEvents
+} from "./protocol.js";
+export {isOriginAllowed, isSameOrigin, type AllowedOrigins, type OriginMatcher} from "./origins.js";
+export {negotiateProtocol, parseProtocols} from "./subprotocols.js";
+export {
+    frameHeader,
+    prepareMessage,
+    PreparedMessage,
+    type PreparedMessageData,
+    type PrepareOptions
+} from "./prepared.js";
+export {forwardedFor, resolveClientAddress, type TrustProxy} from "./proxy.js";
+export {
+    createUpgradeEvent,
+    parseCookies,
+    type UpgradeCookies,
+    type UpgradeEvent,
+    type UpgradeHook,
+    type UpgradeResolve
+} from "./event.js";
+export {TokenBucket, type MessageRateLimit, type RateLimitAction} from "./limits.js";
+export {
+    DrainWaiters,
+    type BackpressureConfig,
+    type BackpressurePolicy,
+    type BroadcastResult
+} from "./backpressure.js";
+export {
+    Counter,
+    formatPrometheus,
+    Histogram,
+    WebSocketMetrics,
+    type HistogramSample,
+    type MetricFamily,
+    type MetricLabels,
+    type MetricSample,
+    type RejectionReason
+} from "./metrics.js";
+export {type InstrumentedSocket, type Instrumentation, type Logger, type SpanEnd} from "./instrumentation.js";
+export {
+    describeConfig,
+    type EndpointType,
+    type InspectAction,
+    type InspectEvent,
+    type InspectHandlerOptions,
+    type Inspector
+} from "./inspect.js";
+export {PresenceTracker, type PresenceConfig, type PresenceEntry} from "./presence.js";
+export {
+    applyPresenceDiff,
+    PRESENCE_DIFF_EVENT,
+    PRESENCE_STATE_EVENT,
+    type PresenceDiff,
+    type PresenceState
+} from "../shared/presence.js";
 
 // Enhanced BufferLike type with better type safety
 export type BufferLike =
@@ -31,22 +152,115 @@ export type WebSocketSendOptions = {
     fin?: boolean | undefined;
 };
 
+export type BroadcastOptions = WebSocketSendOptions & {
+    filter?: (ws: ReferencedWebSocket) => boolean;
+};
+
+/**
+ * Fan-out target returned by `WebSocketEndpointController.to()`
+ */
+export type RoomBroadcast<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    readonly sockets: ReferencedWebSocket<TEvents>[];
+    readonly size: number;
+    broadcast(data: BufferLike, options?: BroadcastOptions, cb?: (errors: Error[]) => void): void;
+    broadcastAsync(data: BufferLike, options?: BroadcastOptions): Promise<BroadcastResult>;
+    broadcastEvent<K extends keyof TEvents & string>(event: K, payload: TEvents[K], options?: BroadcastOptions, cb?: (errors: Error[]) => void): void;
+};
+
 type MaybePromise<T> = T | Promise<T>;
-type RequestEventLike = { url: URL };
+/**
+ * The parts of a SvelteKit `RequestEvent` used here, a `RequestEvent` can be passed as-is
+ */
+export type RequestEventLike = {
+    url: URL;
+    getClientAddress?: () => string;
+    locals?: any;
+    request?: Request;
+};
+
+/**
+ * Claims to put into a connection key on top of its path and expiry
+ */
+export type ConnectionKeyRequest = {
+    /**
+     * Request the key is issued for, feeds the endpoint's `claims` config
+     */
+    event?: RequestEventLike;
+    subject?: string;
+    metadata?: Record<string, unknown>;
+    address?: string; // only redeemable from this client address
+    origin?: string; // only redeemable with this Origin header
+};
+
+// The parts of ws internals used to write prepared frames; private, so feature-detected by supportsFrameWrites()
+type SocketSender = {
+    _state: number;
+    _queue: unknown[];
+    sendFrame(frame: Buffer[], cb?: (err?: Error) => void): void;
+};
+type SocketInternals = {
+    _sender: SocketSender | null;
+    _extensions?: {
+        'permessage-deflate'?: {
+            params: { server_no_context_takeover?: boolean, server_max_window_bits?: number } | null
+        }
+    };
+};
+
+/**
+ * Checks once whether the installed ws still has the sender internals prepared frames are written with, if not
+ * `sendPrepared()` sends like `send()` does
+ */
+function supportsFrameWrites(): boolean {
+    const Sender = (ws_module as unknown as { Sender?: new (socket: null) => Partial<SocketSender> }).Sender;
+    if (typeof Sender !== 'function') return false;
+    try {
+        const sender = new Sender(null);
+        return typeof sender.sendFrame === 'function' && sender._state === 0 && Array.isArray(sender._queue);
+    } catch {
+        return false;
+    }
+}
+
+const frame_writes = supportsFrameWrites();
 
 declare global {
     var websockets: typeof WebSockets;
 }
 
 // Enhanced socket with better metadata tracking
-export class ReferencedWebSocket extends WebSocket {
+export class ReferencedWebSocket<TEvents extends ProtocolEvents = ProtocolEvents> extends WebSocket {
     private _ref: string = randomUUID();
     private _connectedAt: number = Date.now();
 
     params?: Record<string, string>;
     timeoutTimer?: NodeJS.Timeout;
     lastActivity?: number;
+    // Heartbeat state: pending pong deadline, when the last ping went out and the last measured round trip in ms
+    heartbeatTimer?: NodeJS.Timeout;
+    pingSentAt?: number;
+    latency?: number;
+    heartbeatExpired?: boolean;
+    // Backpressure state: messages skipped because the send buffer was full, and whether that got the socket terminated
+    droppedMessages = 0;
+    overflowed?: boolean;
+    private drainWaiters = new DrainWaiters(() => this.bufferedAmount);
+    private drainCancelledOnClose = false;
     public metadata: Record<string, any> = {};
+    // Claims of the connection key this socket connected with
+    claims?: ConnectionKeyClaims;
+    // Upgrade request, the client address behind trusted proxies and message rate limit state, attached on connect
+    upgradeRequest?: IncomingMessage;
+    clientAddress?: string;
+    // Event of the upgrade request, with the locals filled by the endpoint's `hook`
+    event?: UpgradeEvent;
+    // Route of the endpoint the socket connected to, attached on connect
+    endpoint?: string;
+    messageBucket?: TokenBucket;
+    // Room membership index of the owning endpoint, attached on connect
+    roomRegistry?: RoomRegistry<ReferencedWebSocket<any>>;
+    // RPC state of this connection, attached on connect
+    rpc?: RpcPeer;
 
     declare binaryType: WebSocket['binaryType'];
     declare readonly bufferedAmount: WebSocket['bufferedAmount'];
@@ -88,17 +302,124 @@ export class ReferencedWebSocket extends WebSocket {
     send(data: BufferLike, cb?: (err?: Error) => void): void;
     send(data: BufferLike, options: WebSocketSendOptions, cb?: (err?: Error) => void): void;
     send(data: BufferLike, optionsOrCallback?: WebSocketSendOptions | ((err?: Error) => void), cb?: (err?: Error) => void): void {
-        if (typeof optionsOrCallback === 'function') {
-            super.send(data, optionsOrCallback);
+        this.sent(data);
+        const written = this.written(typeof optionsOrCallback === 'function' ? optionsOrCallback : cb);
+        if (optionsOrCallback && typeof optionsOrCallback !== 'function') {
+            super.send(data, optionsOrCallback, written);
             return;
         }
 
-        if (optionsOrCallback) {
-            super.send(data, optionsOrCallback, cb);
+        super.send(data, written);
+    }
+
+    /**
+     * Writes a {@link PreparedMessage} frame as-is, so a broadcast frames (and compresses) once for all sockets. Falls
+     * back to a regular `send()` while another send is in progress, for compressed messages to sockets whose compressor
+     * keeps context between messages (use `serverNoContextTakeover` to share compressed frames), and when the installed
+     * ws version lacks the internals frames are written with.
+     * @param message
+     * @param cb
+     */
+    sendPrepared(message: PreparedMessage, cb?: (err?: Error) => void): void {
+        const {_sender: sender, _extensions: extensions} = this as unknown as SocketInternals;
+        const deflate = extensions?.['permessage-deflate']?.params;
+        const busy = !sender || sender._state !== 0 || sender._queue.length > 0;
+        if (!frame_writes || this.readyState !== WebSocket.OPEN || busy || (deflate && message.compress && !deflate.server_no_context_takeover)) {
+            this.send(message.payload, {binary: message.binary, compress: message.compress}, cb);
             return;
         }
+        this.sent(message.payload);
+        sender.sendFrame(message.frame(deflate ? deflate.server_max_window_bits ?? 15 : undefined), this.written(cb));
+    }
+
+    private sent(data: unknown) {
+        if (this.endpoint === undefined || this.readyState !== WebSocket.OPEN) return;
+        metrics.messagesSent.inc({endpoint: this.endpoint});
+        metrics.bytesSent.inc({endpoint: this.endpoint}, byteLength(data));
+    }
+
+    // Every completed write may bring the buffer back under the limit someone waits for
+    private written(cb?: (err?: Error) => void) {
+        return (err?: Error) => {
+            if (err && this.endpoint !== undefined) metrics.sendErrors.inc({endpoint: this.endpoint});
+            if (this.readyState === WebSocket.OPEN) this.drainWaiters.release();
+            else this.drainWaiters.cancel();
+            cb?.(err);
+        };
+    }
+
+    /**
+     * Resolves with true once `bufferedAmount` is at most `limit` bytes, or with false when the socket closes or
+     * `timeout` ms pass first. Concurrent callers are released in order.
+     * @param limit
+     * @param timeout
+     */
+    drain(limit: number = 0, timeout?: number): Promise<boolean> {
+        if (this.readyState !== WebSocket.OPEN) return Promise.resolve(false);
+        if (!this.drainCancelledOnClose) {
+            this.drainCancelledOnClose = true;
+            this.once('close', () => this.drainWaiters.cancel());
+        }
+        return this.drainWaiters.wait(limit, timeout);
+    }
+
+    /**
+     * Whether messages are held back until the send buffer drains
+     */
+    get draining() {
+        return this.drainWaiters.size > 0;
+    }
+
+    /**
+     * Returns the rooms this socket joined
+     */
+    get rooms(): string[] {
+        return this.roomRegistry?.roomsOf(this._ref) ?? [];
+    }
 
-        super.send(data, cb);
+    /**
+     * Joins one or more rooms of the owning endpoint
+     * @param rooms
+     */
+    join(...rooms: string[]): this {
+        // A socket that closed meanwhile, e.g. while an async connect handler ran, stays out of the rooms
+        if (this.readyState !== WebSocket.OPEN) return this;
+        if (!this.roomRegistry) throw new Error('Socket is not connected to an endpoint');
+        for (const room of rooms) this.roomRegistry.join(this, room);
+        return this;
+    }
+
+    /**
+     * Leaves one or more rooms, or every room when called without arguments
+     * @param rooms
+     */
+    leave(...rooms: string[]): this {
+        if (!this.roomRegistry) return this;
+        if (rooms.length === 0) this.roomRegistry.leaveAll(this);
+        for (const room of rooms) this.roomRegistry.leave(this, room);
+        return this;
+    }
+
+    /**
+     * Calls a procedure registered on the client and resolves with its result
+     * @param method
+     * @param params
+     * @param options
+     * @throws RpcError with code `TIMEOUT`, `CLOSED`, `METHOD_NOT_FOUND` or the code thrown by the client
+     */
+    request<T = unknown>(method: string, params?: unknown, options?: RpcCallOptions): Promise<T> {
+        if (!this.rpc) return Promise.reject(new RpcError('CLOSED', 'Socket is not connected to an endpoint'));
+        return this.rpc.request<T>(method, params, options);
+    }
+
+    /**
+     * Sends a typed protocol event as an `{ event, data }` JSON frame
+     * @param event
+     * @param payload
+     * @param cb
+     */
+    emitEvent<K extends keyof TEvents & string>(event: K, payload: TEvents[K], cb?: (err?: Error) => void): void {
+        this.send(encodeEvent(event, payload), cb);
     }
 
     close(code?: number, data?: string | Buffer): void {
@@ -205,13 +526,6 @@ export class ReferencedWebSocket extends WebSocket {
     }
 }
 
-// Enhanced pending key tracking
-interface PendingKey {
-    key: string;
-    createdAt: number;
-    expiresAt: number;
-}
-
 // Better error types
 export enum WebSocketError {
     TOO_MANY_CONNECTIONS = 1013,
@@ -219,9 +533,19 @@ export enum WebSocketError {
     MISSING_PARAM = 1008,
     AUTH_FAILED = 1008,
     TIMEOUT = 1001,
-    RATE_LIMITED = 1013
+    RATE_LIMITED = 1013,
+    UNSUPPORTED_DATA = 1003,
+    INVALID_PAYLOAD = 1007,
+    HEARTBEAT_TIMEOUT = 1006, // reported on disconnect, the socket is terminated without a close frame
+    SLOW_CONSUMER = 1013, // reported on disconnect, the close frame would queue behind the data the client isn't reading
+    MESSAGE_TOO_BIG = 1009
 }
 
+/**
+ * Server procedure callable from the client with `ctrl.call(method, params)`
+ */
+export type RpcProcedure<TEvents extends ProtocolEvents = ProtocolEvents> = (params: any, ws: ReferencedWebSocket<TEvents>) => unknown;
+
 export type UpgradeHandler = (input: {
     req: IncomingMessage,
     head: Buffer,
@@ -241,22 +565,73 @@ export interface GenericWebSocketEndpointController {
     get config(): WebSocketEndpointConfig
 }
 
+/**
+ * Context of a `rateLimit` event raised by a connected socket
+ */
+export type RateLimitViolation = {
+    socket: ReferencedWebSocket;
+    limit: 'messages' | 'payload'; // `messageRateLimit` or `maxPayload`
+    action: RateLimitAction; // oversized messages always close the socket
+};
+
 // Enhanced event types
 export interface WebSocketEndpointEvents {
     connect: [ReferencedWebSocket];
     disconnect: [ReferencedWebSocket, number, string]; // socket, code, reason
+    message: [ReferencedWebSocket, WebSocket.RawData, boolean]; // socket, data, isBinary; without a typed protocol
     destroy: [];
     error: [Error, ReferencedWebSocket?];
-    rateLimit: [IncomingMessage];
+    rateLimit: [IncomingMessage, RateLimitViolation?]; // upgrade request, and the violation of a connected socket
+    originRejected: [string, IncomingMessage]; // origin, upgrade request
+    protocolError: [ProtocolError, ReferencedWebSocket];
+    slowConsumer: [ReferencedWebSocket, number, BackpressurePolicy]; // socket, bufferedAmount, action taken
+    presenceDiff: [PresenceDiff<any>];
 }
 
-export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointEvents> implements GenericWebSocketEndpointController {
+// Lifecycle events plus a `message:<event>` event per protocol event
+export type WebSocketEndpointControllerEvents<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    [E in keyof WebSocketEndpointEvents | `message:${keyof TEvents & string}`]: E extends keyof WebSocketEndpointEvents
+        ? WebSocketEndpointEvents[E]
+        : E extends `message:${infer K}` ? [ReferencedWebSocket<TEvents>, TEvents[K]] : never;
+};
+
+// Socket events that can be scoped to a subprotocol
+export type ProtocolScopeEvents<TEvents extends ProtocolEvents = ProtocolEvents> = Pick<
+    WebSocketEndpointControllerEvents<TEvents>,
+    'connect' | 'disconnect' | 'message' | `message:${keyof TEvents & string}`
+>;
+
+/**
+ * Listeners that only see sockets which negotiated one subprotocol, see {@link WebSocketEndpointController.forProtocol}
+ */
+export type ProtocolScope<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    readonly protocol: string;
+    on<E extends keyof ProtocolScopeEvents<TEvents>>(event: E, listener: (...args: ProtocolScopeEvents<TEvents>[E]) => void): ProtocolScope<TEvents>;
+    off<E extends keyof ProtocolScopeEvents<TEvents>>(event: E, listener: (...args: ProtocolScopeEvents<TEvents>[E]) => void): ProtocolScope<TEvents>;
+};
+
+export class WebSocketEndpointController<TEvents extends ProtocolEvents = ProtocolEvents> extends EventEmitter<WebSocketEndpointControllerEvents<TEvents>> implements GenericWebSocketEndpointController {
     beforeUpgrade?: UpgradeHandler;
 
     private sockets = new Map<string, ReferencedWebSocket>();
-    private pendingKeys = new Map<string, PendingKey>();
+    private keyStore: ConnectionKeyStore;
     private rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+    private roomRegistry = new RoomRegistry<ReferencedWebSocket<TEvents>>();
+    private procedures = new Map<string, RpcProcedure<TEvents>>();
+    // Keyed presence of the sockets on this instance, see `presence` in the config
+    readonly presence = new PresenceTracker<ReferencedWebSocket<TEvents>, any>((diff) => this.presenceChanged(diff));
+    private broker?: BrokerAdapter;
+    private unsubscribeBroker?: () => void;
+    private remoteSockets = new Map<string, string>(); // ref -> node id
     private cleanupTimer?: NodeJS.Timeout;
+    private heartbeatInterval?: NodeJS.Timeout;
+    private slowConsumers = {dropped: 0, disconnected: 0, waited: 0}; // messages per backpressure action
+    private readonly route: ParsedRoute;
+
+    // Lifecycle events typed without the generic `message:*` events, which TypeScript can't resolve inside the class
+    private get lifecycle() {
+        return this as unknown as EventEmitter<WebSocketEndpointEvents>;
+    }
 
     get authHandler() {
         return this.config.authHandler ?? (() => true);
@@ -266,20 +641,107 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         return this._config;
     }
 
-    constructor(public readonly path: string, private readonly _config: WebSocketEndpointConfig) {
+    constructor(public readonly path: string, private readonly _config: WebSocketEndpointConfig<TEvents>) {
         super();
+        this.route = parseRoute(path);
+        this.keyStore = this.config.keyStore ?? new MemoryConnectionKeyStore();
         if (this.config.useConnectionKeys === undefined) this.config.useConnectionKeys = true;
 
         this.cleanupTimer = setInterval(() => this.cleanupExpiredState(), 30000);
         this.cleanupTimer.unref?.();
+        if (this.config.heartbeat) {
+            this.heartbeatInterval = setInterval(() => this.sendHeartbeats(), this.config.heartbeat.interval);
+            this.heartbeatInterval.unref?.();
+        }
+        if (this.config.broker) this.useBroker(this.config.broker);
+        // Listeners added while a module evaluates in dev are replaced by its next version, see WebSockets.hot()
+        (this as unknown as EventEmitter).on('newListener', (event: string | symbol, listener: (...args: any[]) => void) => hot_modules.listener(this, event, listener));
+    }
+
+    /**
+     * Connects this endpoint to a broker, so broadcasts, targeted sends and presence reach other server instances
+     * @param broker the broker, or undefined to disconnect
+     */
+    useBroker(broker: BrokerAdapter | undefined): this {
+        if (this.broker) this.publish({type: 'presence', action: 'sync', refs: []});
+        this.unsubscribeBroker?.();
+        this.unsubscribeBroker = undefined;
+        this.remoteSockets.clear();
+        this.broker = broker;
+        if (!broker) return this;
+
+        this.unsubscribeBroker = broker.subscribe((packet) => this.receive(packet));
+        this.publish({type: 'presence_request'});
+        if (this.sockets.size > 0) this.publish({type: 'presence', action: 'sync', refs: Array.from(this.sockets.keys())});
+        return this;
+    }
+
+    private publish(message: BrokerMessage) {
+        if (!this.broker) return;
+        try {
+            const result = this.broker.publish({node: this.broker.nodeId, path: this.path, message});
+            if (result instanceof Promise) result.catch((error) => reportError(this, error));
+        } catch (error) {
+            reportError(this, error);
+        }
+    }
+
+    private receive(packet: BrokerPacket) {
+        if (!this.broker || packet.node === this.broker.nodeId) return;
+        const message = packet.message;
+
+        if (message.type === 'node_down') {
+            for (const [ref, node] of this.remoteSockets) {
+                if (node === packet.node) this.remoteSockets.delete(ref);
+            }
+            return;
+        }
+        if (packet.path !== this.path) return;
+
+        switch (message.type) {
+            case 'broadcast': {
+                const sockets = message.rooms ? this.roomRegistry.members(...message.rooms) : Array.from(this.sockets.values());
+                this.sendToAll(sockets, decodePayload(message.payload), message.options);
+                break;
+            }
+            case 'send': {
+                const socket = this.sockets.get(message.ref);
+                if (socket?.readyState === WebSocket.OPEN) this.deliver(socket, decodePayload(message.payload), message.options);
+                break;
+            }
+            case 'presence':
+                if (message.action === 'sync') {
+                    for (const [ref, node] of this.remoteSockets) {
+                        if (node === packet.node) this.remoteSockets.delete(ref);
+                    }
+                }
+                for (const ref of message.refs) {
+                    if (message.action === 'leave') this.remoteSockets.delete(ref);
+                    else this.remoteSockets.set(ref, packet.node);
+                }
+                break;
+            case 'presence_request':
+                this.publish({type: 'presence', action: 'sync', refs: Array.from(this.sockets.keys())});
+                break;
+        }
+    }
+
+    /**
+     * Returns where a socket is connected: `local`, the node id of another instance, or undefined when unknown
+     * @param ref
+     */
+    locate(ref: string): string | undefined {
+        if (this.sockets.has(ref)) return 'local';
+        return this.remoteSockets.get(ref);
     }
 
     private cleanupExpiredState(): void {
         const now = Date.now();
-        for (const [id, pendingKey] of this.pendingKeys.entries()) {
-            if (now > pendingKey.expiresAt) {
-                this.pendingKeys.delete(id);
-            }
+        try {
+            const expired = this.keyStore.expire?.(now);
+            if (expired instanceof Promise) expired.catch((error) => reportError(this, error));
+        } catch (error) {
+            reportError(this, error);
         }
         for (const [clientId, limit] of this.rateLimitMap.entries()) {
             if (now > limit.resetTime) {
@@ -288,15 +750,10 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         }
     }
 
-    private generateConnectionKey(): string {
-        // More secure, URL-safe key generation
-        return randomBytes(32).toString('base64url');
-    }
-
-    private checkRateLimit(req: IncomingMessage): boolean {
+    private checkRateLimit(req: IncomingMessage, address: string | undefined): boolean {
         if (!this.config.rateLimit) return true;
 
-        const clientId = this.getClientId(req);
+        const clientId = this.getClientId(req, address);
         const now = Date.now();
         const limit = this.rateLimitMap.get(clientId);
 
@@ -309,7 +766,7 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         }
 
         if (limit.count >= this.config.rateLimit.max) {
-            this.emit('rateLimit', req);
+            this.rateLimited(req);
             return false;
         }
 
@@ -317,61 +774,157 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         return true;
     }
 
-    private getClientId(req: IncomingMessage): string {
+    private getClientId(req: IncomingMessage, address: string | undefined): string {
+        if (this.config.clientId) return this.config.clientId(req, address);
         // Use IP + User-Agent for basic client identification
-        const ip = req.socket.remoteAddress || 'unknown';
+        const ip = address || 'unknown';
         const userAgent = req.headers['user-agent'] || 'unknown';
         return `${ip}:${userAgent}`;
     }
 
-    generatePendingConnectionKey(): string {
-        const key = this.generateConnectionKey();
-        const id = `pending_${Date.now()}_${randomBytes(8).toString('hex')}`;
-        const expiresAt = Date.now() + (this.config.pendingKeyExpiration || 2 * 60 * 1000);
+    private createClaims(request: ConnectionKeyRequest = {}, pathname?: string): ConnectionKeyClaims {
+        const issuedAt = Date.now();
+        const claims: ConnectionKeyClaims = {
+            path: this.path,
+            issuedAt,
+            expiresAt: issuedAt + (this.config.pendingKeyExpiration || 2 * 60 * 1000)
+        };
+        // Keys issued for a url of a dynamic route only open that url
+        if (pathname !== undefined && this.route.dynamic) claims.pathname = pathname;
+        const {event} = request;
+        const config = this.config.claims;
 
-        this.pendingKeys.set(id, {
-            key,
-            createdAt: Date.now(),
-            expiresAt
-        });
+        const subject = request.subject ?? (event && config?.subject?.(event));
+        if (subject !== undefined) claims.subject = subject;
+
+        const metadata = {...(event && config?.metadata?.(event)), ...request.metadata};
+        if (Object.keys(metadata).length > 0) claims.metadata = metadata;
+
+        const address = request.address ?? (config?.bindAddress ? event?.getClientAddress?.() : undefined);
+        if (config?.bindAddress && !address) {
+            throw new Error('claims.bindAddress requires a RequestEvent with getClientAddress() to issue connection keys');
+        }
+        if (address) claims.address = address;
 
+        const origin = request.origin ?? (config?.bindOrigin ? event?.url.origin : undefined);
+        if (config?.bindOrigin && !origin) throw new Error('claims.bindOrigin requires a RequestEvent to issue connection keys');
+        if (origin) claims.origin = origin;
+
+        return claims;
+    }
+
+    /**
+     * Issues a connection key synchronously
+     * @param request claims for the key, such as the request it is issued for
+     * @param pathname the concrete path the key may be redeemed on, for dynamic routes
+     * @throws Error when the key store is asynchronous, use {@link issueConnectionKey} instead
+     */
+    generatePendingConnectionKey(request?: ConnectionKeyRequest, pathname?: string): string {
+        const key = this.keyStore.issue(this.createClaims(request, pathname));
+        if (typeof key !== 'string') {
+            key.catch(() => undefined);
+            throw new Error('The connection key store is asynchronous, use issueConnectionKey(), issueUrl() or websockets.useAsync()');
+        }
         return key;
     }
 
-    private validateConnectionKey(providedKey: string): boolean {
-        if (!providedKey) return false;
+    /**
+     * Issues a connection key, works with synchronous and asynchronous key stores
+     * @param request claims for the key, such as the request it is issued for
+     * @param pathname the concrete path the key may be redeemed on, for dynamic routes
+     */
+    async issueConnectionKey(request?: ConnectionKeyRequest, pathname?: string): Promise<string> {
+        return await this.keyStore.issue(this.createClaims(request, pathname));
+    }
 
-        // Find and remove the matching pending key
-        for (const [id, pendingKey] of this.pendingKeys.entries()) {
-            if (pendingKey.key === providedKey && Date.now() <= pendingKey.expiresAt) {
-                this.pendingKeys.delete(id);
-                return true;
-            }
-        }
-        return false;
+    private async validateConnectionKey(providedKey: string): Promise<ConnectionKeyClaims | undefined> {
+        if (!providedKey) return undefined;
+        return await this.keyStore.consume(providedKey, this.path);
+    }
+
+    private clearOwnKeys() {
+        // Shared stores also hold keys of other endpoints and instances
+        if (!this.config.keyStore && this.keyStore instanceof MemoryConnectionKeyStore) this.keyStore.clear();
     }
 
-    async add(ws: ReferencedWebSocket, req: IncomingMessage) {
+    async add(ws: ReferencedWebSocket, req: IncomingMessage, routeParams: Record<string, string> = {}) {
+        ws.upgradeRequest = req;
+        ws.clientAddress = resolveClientAddress(req, this.config.trustProxy);
+        // Listening right away: the client may close or send an oversized frame while its key or auth is checked
+        let accepted = false;
+        ws.once('close', (code: number, reason: Buffer) => {
+            if (!accepted) return;
+            clearTimeout(ws.heartbeatTimer);
+            ws.heartbeatTimer = undefined;
+            this.sockets.delete(ws.ref);
+            this.publish({type: 'presence', action: 'leave', refs: [ws.ref]});
+            this.presence.untrack(ws.ref);
+            this.roomRegistry.leaveAll(ws);
+            ws.roomRegistry = undefined;
+            ws.rpc?.rejectAll();
+            if (ws.timeoutTimer) {
+                clearTimeout(ws.timeoutTimer);
+                ws.timeoutTimer = undefined;
+            }
+            const [closeCode, closeReason] = ws.heartbeatExpired ? [WebSocketError.HEARTBEAT_TIMEOUT, 'Heartbeat timeout']
+                : ws.overflowed ? [WebSocketError.SLOW_CONSUMER, 'Slow consumer']
+                    : [code, reason.toString()];
+
+            const endpoint = this.path;
+            const duration = ws.uptime / 1000;
+            metrics.active.dec({endpoint});
+            metrics.duration.observe({endpoint}, duration);
+            logger.debug('WebSocket disconnected', {endpoint, ref: ws.ref, code: closeCode, reason: closeReason});
+            instrument(() => instrumentation?.disconnect?.({endpoint, socket: ws, code: closeCode, reason: closeReason, duration}));
+            this.lifecycle.emit('disconnect', ws, closeCode, closeReason);
+        });
+
+        ws.on('error', (error: Error & { code?: string }) => {
+            // ws closes the socket with 1009 itself
+            if (error.code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+                this.rateLimited(req, {socket: ws, limit: 'payload', action: 'close'});
+            }
+            reportError(this, error, ws);
+        });
+
         try {
             // Rate limiting check
-            if (!this.checkRateLimit(req)) {
-                ws.close(WebSocketError.RATE_LIMITED, 'Rate limit exceeded');
+            if (!this.checkRateLimit(req, ws.clientAddress)) {
+                this.refuse(ws, req, 'rate_limit', WebSocketError.RATE_LIMITED, 'Rate limit exceeded');
                 return;
             }
 
             // Connection limit check
             if (this.config?.limit && this.sockets.size >= this.config.limit) {
-                ws.close(WebSocketError.TOO_MANY_CONNECTIONS, 'Too many connections');
+                this.refuse(ws, req, 'too_many_connections', WebSocketError.TOO_MANY_CONNECTIONS, 'Too many connections');
                 return;
             }
 
-            const params = parseUrl(req)?.searchParams;
+            const url = parseUrl(req);
+            const params = url.searchParams;
+            // Route params take precedence over query params with the same name
+            const allParams = {...Object.fromEntries(params.entries()), ...routeParams};
 
             // Key validation
+            let claims: ConnectionKeyClaims | undefined;
             if (this.config.useConnectionKeys) {
                 const providedKey = params.get('key');
-                if (!this.validateConnectionKey(providedKey || '')) {
-                    ws.close(WebSocketError.INVALID_KEY, 'Invalid or expired connection key');
+                claims = await this.validateConnectionKey(providedKey || '');
+                if (ws.readyState !== WebSocket.OPEN) {
+                    this.refuse(ws, req, 'closed', 1001, 'Connection closed');
+                    return;
+                }
+                if (!claims) {
+                    this.refuse(ws, req, 'invalid_key', WebSocketError.INVALID_KEY, 'Invalid or expired connection key');
+                    return;
+                }
+                const origin = req.headers.origin;
+                if (!isBoundTo(claims, {address: ws.clientAddress, origin})) {
+                    this.refuse(ws, req, 'invalid_key', WebSocketError.INVALID_KEY, 'Connection key was issued to another client');
+                    return;
+                }
+                if (!isIssuedFor(claims, url.pathname)) {
+                    this.refuse(ws, req, 'invalid_key', WebSocketError.INVALID_KEY, 'Connection key was issued for another path');
                     return;
                 }
             }
@@ -379,57 +932,173 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
             // Required parameters check
             if (this.config.requiredParams) {
                 for (const param of this.config.requiredParams) {
-                    if (!params.has(param)) {
-                        ws.close(WebSocketError.MISSING_PARAM, `Missing required parameter: ${param}`);
+                    if (!(param in allParams)) {
+                        this.refuse(ws, req, 'missing_param', WebSocketError.MISSING_PARAM, `Missing required parameter: ${param}`);
                         return;
                     }
                 }
             }
 
-            // Authentication
-            if (!await this.authHandler(req)) {
-                ws.close(WebSocketError.AUTH_FAILED, 'Authentication failed');
+            // Authentication, with the event the hook already ran for
+            const event = upgrade_events.get(req) ?? this.createEvent(req, routeParams, ws.clientAddress);
+            upgrade_events.delete(req);
+            const authenticated = await this.authHandler(req, event);
+            if (ws.readyState !== WebSocket.OPEN) {
+                this.refuse(ws, req, 'closed', 1001, 'Connection closed');
+                return;
+            }
+            if (!authenticated) {
+                this.refuse(ws, req, 'auth', WebSocketError.AUTH_FAILED, 'Authentication failed');
                 return;
             }
 
             // Store parameters and add socket
-            ws.params = Object.fromEntries(params.entries());
+            ws.params = allParams;
+            ws.endpoint = this.path;
+            ws.event = event;
+            if (claims) {
+                ws.claims = claims;
+                Object.assign(ws.metadata, claims.metadata);
+                if (claims.subject !== undefined) ws.metadata.subject = claims.subject;
+            }
+            accepted = true;
+            metrics.connections.inc({endpoint: this.path});
+            metrics.active.inc({endpoint: this.path});
             this.sockets.set(ws.ref, ws);
+            this.publish({type: 'presence', action: 'join', refs: [ws.ref]});
+            this.trackPresence(ws as ReferencedWebSocket<TEvents>);
+            ws.roomRegistry = this.roomRegistry;
+            ws.rpc = new RpcPeer({
+                send: (frame) => ws.send(frame),
+                resolve: (method) => {
+                    const procedure = this.procedures.get(method);
+                    return procedure && ((params) => procedure(params, ws as ReferencedWebSocket<TEvents>));
+                },
+                timeout: this.config.rpc?.timeout,
+                onError: (error) => reportError(this, error, ws)
+            });
 
             // Setup timeout
             if (this.config.timeout && this.config.timeout > 0) {
                 this.setupSocketTimeout(ws);
             }
 
-            // Setup event listeners
-            ws.once('close', (code: number, reason: Buffer) => {
-                this.sockets.delete(ws.ref);
-                if (ws.timeoutTimer) {
-                    clearTimeout(ws.timeoutTimer);
-                    ws.timeoutTimer = undefined;
-                }
-                this.emit('disconnect', ws, code, reason.toString());
-            });
+            if (this.config.messageRateLimit) {
+                const {rate, burst} = this.config.messageRateLimit;
+                ws.messageBucket = new TokenBucket(rate, burst);
+            }
 
-            ws.on('error', (error: Error) => {
-                this.emit('error', error, ws);
-            });
+            // RPC and typed protocol dispatch
+            ws.on('message', (data, isBinary) => this.handleMessage(ws, data, isBinary));
+
+            if (this.config.heartbeat) {
+                ws.on('pong', () => this.receiveHeartbeat(ws));
+            }
 
             // Activity tracking
             if (this.config.timeout && this.config.timeout > 0) {
                 const activityHandler = () => this.resetSocketTimeout(ws);
                 ws.on('message', activityHandler);
                 ws.on('ping', activityHandler);
-                ws.on('pong', activityHandler);
+                // Pongs answering the heartbeat don't mean the client is active
+                if (!this.config.heartbeat) ws.on('pong', activityHandler);
             }
 
-            this.emit('connect', ws);
+            endUpgrade(req);
+            logger.debug('WebSocket connected', {endpoint: this.path, ref: ws.ref, clientAddress: ws.clientAddress});
+            instrument(() => instrumentation?.connect?.({endpoint: this.path, socket: ws}));
+            this.lifecycle.emit('connect', ws);
+        } catch (error) {
+            this.refuse(ws, req, 'error', 1011, 'Internal server error');
+            reportError(this, error, ws);
+        }
+    }
+
+    private handleMessage(ws: ReferencedWebSocket, data: WebSocket.RawData, isBinary: boolean) {
+        const endpoint = this.path;
+        const size = byteLength(data);
+        metrics.messagesReceived.inc({endpoint});
+        metrics.bytesReceived.inc({endpoint}, size);
+        const end = instrument(() => instrumentation?.message?.({endpoint, socket: ws, size, binary: isBinary}));
+        let failure: unknown;
+        try {
+            this.receiveMessage(ws, data, isBinary);
         } catch (error) {
-            this.emit('error', error as Error, ws);
-            ws.close(1011, 'Internal server error');
+            // Thrown by a `message` listener; inside ws's message handler it would take the process down
+            failure = error;
+            reportError(this, error, ws);
+        } finally {
+            if (end) instrument(() => end(failure));
         }
     }
 
+    private receiveMessage(ws: ReferencedWebSocket, data: WebSocket.RawData, isBinary: boolean) {
+        if (ws.messageBucket && !ws.messageBucket.take()) {
+            const action = this.config.messageRateLimit?.action ?? 'close';
+            this.rateLimited(ws.upgradeRequest!, {socket: ws, limit: 'messages', action});
+            if (action === 'close' && ws.readyState === WebSocket.OPEN) ws.close(WebSocketError.RATE_LIMITED, 'Message rate limit exceeded');
+            if (action !== 'warn') return;
+        }
+        // Endpoints without procedures that never called the client get every frame, RPC-looking or not
+        if (!isBinary && ws.rpc && (this.procedures.size > 0 || ws.rpc.requested)) {
+            const head = Buffer.isBuffer(data) ? data.toString('utf8', 0, 16) : rawToString(data);
+            if (isRpcFrame(head)) {
+                ws.rpc.handle(rawToString(data));
+                return;
+            }
+        }
+        if (this.config.protocol) this.dispatchEvent(ws, data, isBinary);
+        else this.lifecycle.emit('message', ws, data, isBinary);
+    }
+
+    private dispatchEvent(ws: ReferencedWebSocket, data: WebSocket.RawData, isBinary: boolean) {
+        const protocol: ProtocolConfig<TEvents> = this.config.protocol === true ? {} : this.config.protocol ?? {};
+        let envelope: { event: string, data: unknown };
+        try {
+            envelope = parseEvent(protocol, data, isBinary);
+        } catch (error) {
+            if (!(error instanceof ProtocolError)) throw error;
+            this.lifecycle.emit('protocolError', error, ws);
+            if (ws.readyState !== WebSocket.OPEN) return;
+            switch (protocol.onInvalid ?? 'reply') {
+                case 'reply':
+                    ws.send(encodeEvent(PROTOCOL_ERROR_EVENT, {code: error.code, message: error.message, event: error.event}));
+                    break;
+                case 'close':
+                    ws.close(
+                        error.code === 'UNKNOWN_EVENT' ? WebSocketError.UNSUPPORTED_DATA : WebSocketError.INVALID_PAYLOAD,
+                        error.message.slice(0, 123)
+                    );
+                    break;
+            }
+            return;
+        }
+
+        try {
+            (this as EventEmitter).emit(`message:${envelope.event}`, ws, envelope.data);
+        } catch (error) {
+            reportError(this, error, ws);
+        }
+    }
+
+    private createEvent(req: IncomingMessage, params: Record<string, string>, clientAddress: string | undefined): UpgradeEvent {
+        return createUpgradeEvent(req, {url: parseUrl(req), route: this.path, params, clientAddress});
+    }
+
+    /**
+     * Runs the endpoint's `hook` for an upgrade request, resolves with the response to decline the upgrade with if
+     * the hook returned one
+     * @param req
+     * @param params route params
+     */
+    async runHook(req: IncomingMessage, params: Record<string, string> = {}): Promise<Response | undefined> {
+        if (!this.config.hook) return undefined;
+        const event = this.createEvent(req, params, resolveClientAddress(req, this.config.trustProxy));
+        const response = await runUpgradeHook(this.config.hook, event);
+        if (response.status >= 300) return response;
+        upgrade_events.set(req, event);
+    }
+
     private setupSocketTimeout(ws: ReferencedWebSocket) {
         if (!this.config.timeout) return;
 
@@ -446,27 +1115,103 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         ws.lastActivity = Date.now();
     }
 
+    private sendHeartbeats() {
+        const {interval, timeout = interval} = this.config.heartbeat!;
+        for (const ws of this.sockets.values()) {
+            // Still waiting for the pong of the previous ping
+            if (ws.readyState !== WebSocket.OPEN || ws.heartbeatTimer) continue;
+            ws.pingSentAt = Date.now();
+            ws.heartbeatTimer = setTimeout(() => {
+                // A half-open connection won't complete a close handshake, so don't wait for one
+                ws.heartbeatTimer = undefined;
+                ws.heartbeatExpired = true;
+                ws.terminate();
+            }, timeout);
+            ws.ping();
+        }
+    }
+
+    private receiveHeartbeat(ws: ReferencedWebSocket) {
+        if (!ws.heartbeatTimer) return;
+        clearTimeout(ws.heartbeatTimer);
+        ws.heartbeatTimer = undefined;
+        if (ws.pingSentAt !== undefined) ws.latency = Date.now() - ws.pingSentAt;
+    }
+
     private resetSocketTimeout(ws: ReferencedWebSocket) {
         ws.lastActivity = Date.now();
         this.setupSocketTimeout(ws);
     }
 
+    /**
+     * Returns a connection url for this endpoint, filling route params for patterns like `/rooms/[id]`
+     * @param params
+     * @param request claims for the connection key, such as the request it is issued for
+     */
+    url(params?: Record<string, string>, request?: ConnectionKeyRequest) {
+        const pathname = this.route.dynamic ? resolveRoute(this.path, params) : this.path;
+        return pathname + (this.config.useConnectionKeys ? `?key=${this.generatePendingConnectionKey(request, pathname)}` : '');
+    }
+
+    /**
+     * Like {@link url}, but also works with asynchronous connection key stores
+     * @param params
+     * @param request claims for the connection key, such as the request it is issued for
+     */
+    async issueUrl(params?: Record<string, string>, request?: ConnectionKeyRequest) {
+        const pathname = this.route.dynamic ? resolveRoute(this.path, params) : this.path;
+        return pathname + (this.config.useConnectionKeys ? `?key=${await this.issueConnectionKey(request, pathname)}` : '');
+    }
+
     get new() {
-        return `${this.path}` + (this.config.useConnectionKeys ? `?key=${this.generatePendingConnectionKey()}` : '');
+        return this.url();
     }
 
     // Enhanced broadcast with error handling
-    broadcast(data: BufferLike, options?: {
-        mask?: boolean;
-        binary?: boolean;
-        compress?: boolean;
-        fin?: boolean;
-        filter?: (ws: ReferencedWebSocket) => boolean;
-    }, cb?: (errors: Error[]) => void): void {
+    // Filtered broadcasts stay on this instance, since the filter can't be shared with other nodes
+    broadcast(data: BufferLike, options?: BroadcastOptions, cb?: (errors: Error[]) => void): void {
+        this.sendToAll(Array.from(this.sockets.values()), data, options, cb);
+        if (!options?.filter) {
+            this.publish({type: 'broadcast', payload: encodePayload(data), options: brokerOptions(options)});
+        }
+    }
+
+    /**
+     * Like {@link broadcast}, but frames the message once, and compresses it once with `compress`, then writes the same
+     * frame to every socket, which saves the per-socket work for large fan-outs. `mask` and `fin` don't apply.
+     * @param data a message, or one prepared with `prepareMessage()` to reuse it across broadcasts
+     * @param options
+     * @param cb
+     */
+    broadcastPrepared(data: PreparedMessageData | PreparedMessage, options?: BroadcastOptions, cb?: (errors: Error[]) => void): void {
+        const message = prepareMessage(data, options);
+        this.sendToAll(Array.from(this.sockets.values()), message, options, cb);
+        if (!options?.filter) {
+            const payload = encodePayload(message.binary ? message.payload : message.payload.toString());
+            this.publish({type: 'broadcast', payload, options: brokerOptions(options)});
+        }
+    }
+
+    /**
+     * Broadcasts every message of a (async) iterable with {@link broadcastPrepared}, yielding to the event loop
+     * between messages so a long stream doesn't starve other work. Resolves with the number of messages once the source
+     * is exhausted.
+     * @param source
+     * @param options
+     */
+    async broadcastStream(source: AsyncIterable<PreparedMessageData | PreparedMessage> | Iterable<PreparedMessageData | PreparedMessage>, options?: BroadcastOptions): Promise<number> {
+        let count = 0;
+        for await (const data of source) {
+            this.broadcastPrepared(data, options);
+            count++;
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+        return count;
+    }
+
+    private sendToAll(sockets: ReferencedWebSocket[], data: BufferLike | PreparedMessage, options?: BroadcastOptions, cb?: (errors: Error[]) => void): void {
         const errors: Error[] = [];
-        const sockets = options?.filter
-            ? Array.from(this.sockets.values()).filter(options.filter)
-            : Array.from(this.sockets.values());
+        if (options?.filter) sockets = sockets.filter(options.filter);
 
         let completed = 0;
         const total = sockets.length;
@@ -478,7 +1223,7 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
 
         for (const socket of sockets) {
             if (socket.readyState === WebSocket.OPEN) {
-                socket.send(data, options ?? {}, (error) => {
+                this.deliver(socket, data, options, (error) => {
                     if (error) errors.push(error);
                     completed++;
                     if (completed === total && cb) {
@@ -494,6 +1239,245 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         }
     }
 
+    /**
+     * Like {@link broadcast}, but waits for each socket's send buffer to drain below `backpressure.maxBufferedAmount`
+     * (0 without a backpressure config) before sending to it, and resolves once the message was written to every
+     * socket. Sockets that don't drain within `drainTimeout` skip the message, or are terminated when the policy is
+     * `disconnect` or `wait`.
+     * @param data
+     * @param options
+     */
+    async broadcastAsync(data: BufferLike, options?: BroadcastOptions): Promise<BroadcastResult> {
+        if (!options?.filter) {
+            this.publish({type: 'broadcast', payload: encodePayload(data), options: brokerOptions(options)});
+        }
+        return this.sendToAllAsync(Array.from(this.sockets.values()), data, options);
+    }
+
+    private async sendToAllAsync(sockets: ReferencedWebSocket[], data: BufferLike, options?: BroadcastOptions): Promise<BroadcastResult> {
+        if (options?.filter) sockets = sockets.filter(options.filter);
+        const limit = this.config.backpressure?.maxBufferedAmount ?? 0;
+        const timeout = this.config.backpressure?.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+        // A socket that didn't drain in time is only kept when the policy allows skipping messages
+        const action = (this.config.backpressure?.policy ?? 'drop') === 'drop' ? 'drop' : 'disconnect';
+        const result: BroadcastResult = {sent: 0, dropped: 0, errors: []};
+
+        await Promise.all(sockets.map(async (socket) => {
+            if (socket.readyState !== WebSocket.OPEN) return;
+            if (!await socket.drain(limit, timeout)) {
+                if (socket.readyState !== WebSocket.OPEN) return;
+                result.dropped++;
+                this.handleSlowConsumer(socket, socket.bufferedAmount, action);
+                return;
+            }
+            const error = await new Promise<Error | undefined>((resolve) => socket.send(data, options ?? {}, resolve));
+            if (error) result.errors.push(error);
+            else result.sent++;
+        }));
+        return result;
+    }
+
+    /**
+     * Sends to a local socket, applying the backpressure policy when its send buffer is over the limit
+     * @returns false when the message was dropped
+     */
+    private deliver(socket: ReferencedWebSocket, data: BufferLike | PreparedMessage, options?: WebSocketSendOptions, cb?: (err?: Error) => void): boolean {
+        const write = (cb?: (err?: Error) => void) => {
+            if (data instanceof PreparedMessage) socket.sendPrepared(data, cb);
+            else socket.send(data, options ?? {}, cb);
+        };
+        const backpressure = this.config.backpressure;
+        const policy = backpressure?.policy ?? 'drop';
+        // With the `wait` policy, later messages queue up behind the ones already held back
+        if (!backpressure || (socket.bufferedAmount <= backpressure.maxBufferedAmount && !(policy === 'wait' && socket.draining))) {
+            write(cb);
+            return true;
+        }
+
+        this.handleSlowConsumer(socket, socket.bufferedAmount, policy);
+        if (policy !== 'wait') {
+            cb?.(new Error(policy === 'drop' ? 'Message dropped for a slow consumer' : 'Slow consumer disconnected'));
+            return false;
+        }
+        socket.drain(backpressure.maxBufferedAmount, backpressure.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT).then((drained) => {
+            if (drained) {
+                write(cb);
+                return;
+            }
+            if (socket.readyState === WebSocket.OPEN) this.handleSlowConsumer(socket, socket.bufferedAmount, 'disconnect');
+            cb?.(new Error('Slow consumer did not drain in time'));
+        });
+        return true;
+    }
+
+    private handleSlowConsumer(socket: ReferencedWebSocket, bufferedAmount: number, action: BackpressurePolicy) {
+        switch (action) {
+            case 'drop':
+                socket.droppedMessages++;
+                this.slowConsumers.dropped++;
+                break;
+            case 'disconnect':
+                if (socket.overflowed) return;
+                this.slowConsumers.disconnected++;
+                socket.overflowed = true;
+                socket.terminate();
+                break;
+            case 'wait':
+                this.slowConsumers.waited++;
+                break;
+        }
+        warnOnce(socket, 'WebSocket slow consumer', {endpoint: this.path, ref: socket.ref, bufferedAmount, action});
+        this.lifecycle.emit('slowConsumer', socket, bufferedAmount, action);
+    }
+
+    private rateLimited(req: IncomingMessage, violation?: RateLimitViolation) {
+        warnOnce(violation?.socket, 'WebSocket rate limit exceeded', {
+            endpoint: this.path,
+            ref: violation?.socket.ref,
+            limit: violation?.limit ?? 'connections',
+            action: violation?.action
+        });
+        this.lifecycle.emit('rateLimit', req, violation);
+    }
+
+    private get presenceConfig(): PresenceConfig<ReferencedWebSocket<TEvents>, any> | undefined {
+        const presence = this.config.presence;
+        return presence === true ? {} : presence;
+    }
+
+    // Sends the current presence to a connecting socket first, so the diff of its own join applies on top of it
+    private trackPresence(ws: ReferencedWebSocket<TEvents>) {
+        const config = this.presenceConfig;
+        if (!config) return;
+        if (config.sync !== false) this.deliver(ws, encodeEvent(PRESENCE_STATE_EVENT, this.presence.state()));
+        const key = config.key ? config.key(ws) : ws.metadata.subject;
+        if (typeof key === 'string') this.presence.track(ws, key, config.state ? config.state(ws) : {});
+    }
+
+    private presenceChanged(diff: PresenceDiff<any>) {
+        // Presence is tracked per instance, so the diff isn't published to the broker
+        if (this.presenceConfig && this.presenceConfig.sync !== false) {
+            this.sendToAll(Array.from(this.sockets.values()), encodeEvent(PRESENCE_DIFF_EVENT, diff));
+        }
+        this.lifecycle.emit('presenceDiff', diff);
+    }
+
+    // Turns away a just upgraded connection
+    private refuse(ws: ReferencedWebSocket, req: IncomingMessage, reason: RejectionReason, code: number, message: string) {
+        reject(this.path, reason, req, message);
+        ws.close(code, message);
+    }
+
+    /**
+     * Broadcasts a typed protocol event to all (filtered) sockets
+     * @param event
+     * @param payload
+     * @param options
+     * @param cb
+     */
+    broadcastEvent<K extends keyof TEvents & string>(event: K, payload: TEvents[K], options?: BroadcastOptions, cb?: (errors: Error[]) => void): void {
+        this.broadcast(encodeEvent(event, payload), options, cb);
+    }
+
+    /**
+     * Scopes listeners to sockets that negotiated the given subprotocol, so several protocol versions can be served
+     * side by side
+     * @param protocol one of the `protocols` of this endpoint
+     */
+    forProtocol(protocol: string): ProtocolScope<TEvents> {
+        const emitter = this as unknown as EventEmitter;
+        const wrappers = new Map<string, Map<Function, (...args: any[]) => void>>();
+        const scope: ProtocolScope<TEvents> = {
+            protocol,
+            on(event, listener) {
+                const wrapper = (ws: ReferencedWebSocket, ...args: unknown[]) => {
+                    if (ws.protocol === protocol) (listener as (...args: unknown[]) => void)(ws, ...args);
+                };
+                let listeners = wrappers.get(event);
+                if (!listeners) {
+                    listeners = new Map();
+                    wrappers.set(event, listeners);
+                }
+                listeners.set(listener, wrapper);
+                emitter.on(event, wrapper);
+                return scope;
+            },
+            off(event, listener) {
+                const wrapper = wrappers.get(event)?.get(listener);
+                if (wrapper) {
+                    wrappers.get(event)!.delete(listener);
+                    emitter.off(event, wrapper);
+                }
+                return scope;
+            }
+        };
+        return scope;
+    }
+
+    /**
+     * Targets the members of one or more rooms; a socket in several of the rooms receives a message once
+     * @param rooms
+     */
+    to(...rooms: string[]): RoomBroadcast<TEvents> {
+        const registry = this.roomRegistry;
+        const send = (data: BufferLike, options?: BroadcastOptions, cb?: (errors: Error[]) => void) => {
+            this.sendToAll(registry.members(...rooms), data, options, cb);
+            if (!options?.filter) {
+                this.publish({type: 'broadcast', payload: encodePayload(data), options: brokerOptions(options), rooms});
+            }
+        };
+        const sendAsync = (data: BufferLike, options?: BroadcastOptions) => {
+            if (!options?.filter) {
+                this.publish({type: 'broadcast', payload: encodePayload(data), options: brokerOptions(options), rooms});
+            }
+            return this.sendToAllAsync(registry.members(...rooms), data, options);
+        };
+        return {
+            get sockets() {
+                return registry.members(...rooms);
+            },
+            get size() {
+                return rooms.length === 1 ? registry.size(rooms[0]) : registry.members(...rooms).length;
+            },
+            broadcast: send,
+            broadcastAsync: sendAsync,
+            broadcastEvent: (event, payload, options, cb) => send(encodeEvent(event, payload), options, cb)
+        };
+    }
+
+    /**
+     * Registers a procedure that clients can call with `ctrl.call(name, params)`
+     * @param name
+     * @param procedure receives the call params and the calling socket; throw an `RpcError` to reply with a custom code
+     */
+    procedure(name: string, procedure: RpcProcedure<TEvents>): this {
+        this.procedures.set(name, procedure);
+        return this;
+    }
+
+    /**
+     * Returns the sockets in a room
+     * @param room
+     */
+    members(room: string): ReferencedWebSocket<TEvents>[] {
+        return this.roomRegistry.members(room);
+    }
+
+    /**
+     * Returns the rooms a socket joined
+     * @param ref
+     */
+    roomsOf(ref: string): string[] {
+        return this.roomRegistry.roomsOf(ref);
+    }
+
+    /**
+     * Returns the member count per room
+     */
+    get rooms(): Record<string, number> {
+        return this.roomRegistry.counts();
+    }
+
     // Fixed send method
     send(ref: string, data: BufferLike, options?: {
         mask?: boolean | undefined;
@@ -502,6 +1486,11 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         fin?: boolean | undefined;
     }, cb?: (err?: Error) => void): boolean {
         const socket = this.sockets.get(ref);
+        if (!socket && this.remoteSockets.has(ref)) {
+            this.publish({type: 'send', ref, payload: encodePayload(data), options: brokerOptions(options)});
+            if (cb) cb();
+            return true;
+        }
         if (!socket) {
             const error = new Error(`Socket not found: ${ref}`);
             if (cb) cb(error);
@@ -515,14 +1504,21 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         }
 
         try {
-            socket.send(data, options ?? {}, cb);
-            return true;
+            return this.deliver(socket, data, options, cb);
         } catch (error) {
             if (cb) cb(error as Error);
             return false;
         }
     }
 
+    /**
+     * Returns a socket connected to this instance
+     * @param ref
+     */
+    socket(ref: string): ReferencedWebSocket<TEvents> | undefined {
+        return this.sockets.get(ref) as ReferencedWebSocket<TEvents> | undefined;
+    }
+
     // Enhanced connection info
     getConnectionsInfo() {
         const connections = [];
@@ -531,23 +1527,33 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
                 ref,
                 readyState: socket.readyState,
                 params: socket.params,
+                clientAddress: socket.clientAddress,
                 lastActivity: socket.lastActivity,
                 connectedAt: socket.connectedAt,
                 uptime: socket.uptime,
                 idleTime: socket.lastActivity ? Date.now() - socket.lastActivity : undefined,
-                metadata: socket.metadata
+                metadata: socket.metadata,
+                latency: socket.latency, // round trip of the last heartbeat in ms
+                bufferedAmount: socket.bufferedAmount,
+                droppedMessages: socket.droppedMessages,
+                rooms: this.roomRegistry.roomsOf(ref),
+                presence: this.presence.keyOf(ref)
             });
         }
         return {
             connections,
             total: connections.length,
-            pendingKeys: this.pendingKeys.size,
-            rateLimitEntries: this.rateLimitMap.size
+            rooms: this.roomRegistry.counts(),
+            presence: this.presence.size,
+            remoteConnections: this.remoteSockets.size,
+            pendingKeys: this.keyStore.size,
+            rateLimitEntries: this.rateLimitMap.size,
+            slowConsumers: {...this.slowConsumers}
         };
     }
 
     // Graceful shutdown
-    async gracefulShutdown(timeout: number = 5000): Promise<void> {
+    async gracefulShutdown(timeout: number = 5000, reason: string = 'Server shutting down'): Promise<void> {
         return new Promise((resolve) => {
             const sockets = Array.from(this.sockets.values());
             let closedCount = 0;
@@ -583,7 +1589,7 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
             for (const socket of sockets) {
                 socket.once('close', closeHandler);
                 if (socket.readyState === WebSocket.OPEN) {
-                    socket.close(1001, 'Server shutting down');
+                    socket.close(1001, reason);
                 } else {
                     closeHandler();
                 }
@@ -612,7 +1618,8 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
                 socket.terminate();
             }
             this.sockets.clear();
-            this.pendingKeys.clear();
+            this.roomRegistry.clear();
+            this.clearOwnKeys();
             this.rateLimitMap.clear();
         } else {
             const socket = this.sockets.get(ref);
@@ -629,6 +1636,9 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
             clearInterval(this.cleanupTimer);
             this.cleanupTimer = undefined;
         }
+        clearInterval(this.heartbeatInterval);
+        this.heartbeatInterval = undefined;
+        this.useBroker(undefined);
 
         // Clear all timers and maps
         for (const socket of this.sockets.values()) {
@@ -641,10 +1651,12 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         }
 
         this.sockets.clear();
-        this.pendingKeys.clear();
+        this.roomRegistry.clear();
+        this.presence.clear();
+        this.clearOwnKeys();
         this.rateLimitMap.clear();
         this.config?.disposer?.();
-        this.emit('destroy');
+        this.lifecycle.emit('destroy');
         this.removeAllListeners();
     }
 
@@ -652,26 +1664,137 @@ export class WebSocketEndpointController extends EventEmitter<WebSocketEndpointE
         return {
             path: this.path,
             connectionCount: this.sockets.size,
-            pendingKeysCount: this.pendingKeys.size,
+            pendingKeysCount: this.keyStore.size,
             rateLimitEntries: this.rateLimitMap.size,
+            roomCount: this.roomRegistry.names().length,
             timeout: this.config.timeout || 'none',
             uptime: Date.now() - (this.sockets.values().next().value?.connectedAt || Date.now())
         };
     }
 }
 
+/**
+ * An endpoint as listed by `WebSockets.inspect()`
+ */
+export type EndpointInspection = {
+    path: string;
+    type: EndpointType;
+    config: Record<string, unknown>;
+    connections: number;
+    remoteConnections: number; // on other instances, with a broker
+    rooms: Record<string, number>;
+    sockets: ReturnType<WebSocketEndpointController['getConnectionsInfo']>['connections'];
+};
+
+/**
+ * Exports of a `socket.server.ts` route file, registered by the Vite plugin at server startup
+ */
+export type SocketRouteModule<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    config?: Omit<WebSocketEndpointConfig<TEvents>, 'disposer' | 'path'>;
+    // Called once with the endpoint, e.g. to register procedures or `message:<event>` listeners
+    setup?: (controller: WebSocketEndpointController<TEvents>) => unknown;
+    connect?: (socket: ReferencedWebSocket<TEvents>, controller: WebSocketEndpointController<TEvents>) => unknown;
+    // Without a typed `protocol` in the config
+    message?: (socket: ReferencedWebSocket<TEvents>, data: WebSocket.RawData, isBinary: boolean, controller: WebSocketEndpointController<TEvents>) => unknown;
+    close?: (socket: ReferencedWebSocket<TEvents>, code: number, reason: string, controller: WebSocketEndpointController<TEvents>) => unknown;
+};
+
 // Enhanced configuration
-export type WebSocketEndpointConfig = {
-    authHandler?: (req: IncomingMessage) => MaybePromise<boolean>;
+export type WebSocketEndpointConfig<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    /**
+     * Decides whether a connection is accepted, after the connection key and required params checks
+     * @param req upgrade request
+     * @param event cookies, url and params of the request, with the locals filled by `hook`
+     */
+    authHandler?: (req: IncomingMessage, event: UpgradeEvent) => MaybePromise<boolean>;
+    /**
+     * `handle`-style hook run before the upgrade, e.g. the session logic of `hooks.server.ts`; the locals it fills are
+     * available to `authHandler` and as `ReferencedWebSocket.event.locals`
+     */
+    hook?: UpgradeHook;
     limit?: number;
     useConnectionKeys?: boolean;
     pendingKeyExpiration?: number;
+    /**
+     * Where pending connection keys live, defaults to a per-endpoint in-memory store. Use a shared store or
+     * `SignedConnectionKeys` when keys are issued and redeemed on different instances.
+     */
+    keyStore?: ConnectionKeyStore;
+    /**
+     * Claims derived from the request a connection key is issued for (see `url(params, {event})`); they end up in
+     * `ReferencedWebSocket.claims` and `metadata` of the socket that redeems the key
+     */
+    claims?: {
+        subject?: (event: RequestEventLike) => string | undefined; // e.g. event => event.locals.user?.id
+        metadata?: (event: RequestEventLike) => Record<string, unknown> | undefined;
+        bindAddress?: boolean; // only redeemable from event.getClientAddress()
+        bindOrigin?: boolean; // only redeemable by pages on event.url.origin
+    };
+    /**
+     * Origins allowed to open a socket, defaults to same-origin. Requests without an `Origin` header (non-browser
+     * clients) are always allowed.
+     */
+    allowedOrigins?: AllowedOrigins;
+    /**
+     * Supported subprotocols in priority order; clients that offer none of them are declined with a 400
+     */
+    protocols?: string[];
     requiredParams?: string[];
     timeout?: number;
+    /**
+     * Proxies to trust for the client address (`X-Forwarded-For`, `Forwarded`), which ends up in
+     * `ReferencedWebSocket.clientAddress` and is used for rate limiting and key address bindings
+     */
+    trustProxy?: TrustProxy;
+    /**
+     * Identifies a client for the connection rate limit, defaults to the client address plus user agent
+     */
+    clientId?: (req: IncomingMessage, address: string | undefined) => string;
+    /**
+     * Connection attempts per client, see `clientId`
+     */
     rateLimit?: {
         max: number;
         window: number; // in milliseconds
     };
+    /**
+     * Messages per socket; violations are reported as `rateLimit` events with the socket
+     */
+    messageRateLimit?: MessageRateLimit;
+    /**
+     * Largest message in bytes (after decompression), instead of the 100 MiB shared by all endpoints. Bigger messages
+     * close the socket with 1009 and are reported as `rateLimit` events.
+     */
+    maxPayload?: number;
+    rpc?: {
+        timeout?: number; // default timeout of ws.request() in milliseconds
+    };
+    /**
+     * Pings every socket each `interval` ms and terminates sockets that don't answer within `timeout` ms (defaults to
+     * the interval), which detects half-open connections that `timeout` alone doesn't
+     */
+    heartbeat?: {
+        interval: number;
+        timeout?: number;
+    };
+    /**
+     * Limits how much data may pile up in a socket's send buffer when sending through the controller (`broadcast`,
+     * `send`, `to()`); what happens beyond `maxBufferedAmount` is up to the `policy`, and reported as `slowConsumer`
+     */
+    backpressure?: BackpressureConfig;
+    /**
+     * Broker connecting this endpoint to other server instances, defaults to the one set with `WebSockets.useBroker()`
+     */
+    broker?: BrokerAdapter;
+    /**
+     * Opt-in typed `{ event, data }` JSON protocol, dispatched as `message:<event>` controller events
+     */
+    protocol?: ProtocolConfig<TEvents> | true;
+    /**
+     * Tracks who is connected, by key (e.g. user id) so several tabs of a user count once, and keeps the sockets up
+     * to date with `presence_state` and `presence_diff` events; `true` keys sockets by `metadata.subject`
+     */
+    presence?: PresenceConfig<ReferencedWebSocket<TEvents>, any> | true;
 } & GenericWebSocketEndpointConfig;
 
 // Rest of the implementation remains similar but with enhanced error handling
@@ -698,15 +1821,176 @@ export class WebSocketRawEndpointController implements GenericWebSocketEndpointC
     }
 }
 
+function brokerOptions(options?: WebSocketSendOptions) {
+    if (!options || (options.binary === undefined && options.compress === undefined)) return undefined;
+    return {binary: options.binary, compress: options.compress};
+}
+
 function parseUrl(req: IncomingMessage): URL {
     return new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
 }
 
-const allowed_routes = new Map<string, GenericWebSocketEndpointController>();
-const server = new WebSocketServer({noServer: true, WebSocket: ReferencedWebSocket});
+const allowed_routes = new RouteTable<GenericWebSocketEndpointController>();
+// Subprotocol picked per upgrade request, for endpoints that configure `protocols`
+const negotiated = new WeakMap<IncomingMessage, string>();
+// What the server modules evaluated in dev registered, see WebSockets.hot()
+const hot_modules = new HotModules<GenericWebSocketEndpointController>();
+// Events the endpoint's hook ran for, picked up when the socket is added
+const upgrade_events = new WeakMap<IncomingMessage, UpgradeEvent>();
+// Which registration function created an endpoint, for inspect()
+const endpoint_types = new WeakMap<GenericWebSocketEndpointController, EndpointType>();
+const server = new WebSocketServer({
+    noServer: true,
+    WebSocket: ReferencedWebSocket,
+    // Without `protocols` config the first offered protocol is accepted, like ws does by default
+    handleProtocols: (protocols, req) => negotiated.get(req) ?? protocols.values().next().value ?? false
+});
+// Servers for endpoints with their own `maxPayload`, which ws applies per server, by limit
+const payload_servers = new Map<number, typeof server>();
+let default_broker: BrokerAdapter | undefined;
+let default_key_store: ConnectionKeyStore | undefined;
+const metrics = new WebSocketMetrics();
+let logger: Logger = defaultLogger;
+let instrumentation: Instrumentation | undefined;
+// Set by useOrigin(), the same-origin check falls back to the `ORIGIN` environment variable
+let public_origin: string | undefined;
+// Upgrade sections started for requests that weren't accepted or rejected yet
+const upgrade_spans = new WeakMap<IncomingMessage, SpanEnd>();
+// The per-message warnings logged for a socket, see warnOnce()
+const warned_sockets = new WeakMap<ReferencedWebSocket, Set<string>>();
+
+function endUpgrade(req: IncomingMessage, error?: Error) {
+    const end = upgrade_spans.get(req);
+    upgrade_spans.delete(req);
+    if (end) instrument(() => end(error));
+}
+
+// Counts, logs and reports an upgrade or new connection that was turned away
+function reject(endpoint: string, reason: RejectionReason, req: IncomingMessage, message: string) {
+    metrics.rejections.inc({endpoint, reason});
+    logger.info('WebSocket rejected', {endpoint, reason, message, url: req.url});
+    instrument(() => instrumentation?.reject?.({endpoint, reason, req}));
+    endUpgrade(req, new Error(message));
+}
+
+/**
+ * Emits an `error` event on an endpoint, or logs the error when the endpoint has no `error` listener, in which case
+ * emitting would throw (and from a timer or socket callback, crash the process)
+ * @param controller
+ * @param error
+ * @param socket
+ */
+function reportError(controller: WebSocketEndpointController<any>, error: unknown, socket?: ReferencedWebSocket) {
+    const events = controller as unknown as EventEmitter<WebSocketEndpointEvents>;
+    if (events.listenerCount('error') > 0) events.emit('error', error as Error, socket);
+    else logger.error('WebSocket endpoint error', {endpoint: controller.path, ref: socket?.ref, error});
+}
+
+/**
+ * Returns the server upgrading with a payload limit, the limit applies to single messages and to the decompressed
+ * size of compressed ones
+ * @param maxPayload
+ */
+function serverFor(maxPayload: number | undefined): typeof server {
+    if (maxPayload === undefined) return server;
+    let limited = payload_servers.get(maxPayload);
+    if (!limited) {
+        limited = new WebSocketServer({...server.options, maxPayload});
+        payload_servers.set(maxPayload, limited);
+    }
+    return limited;
+}
+
+/**
+ * Logs a per-message problem as a warning the first time it happens on a socket and at debug level after that, so a
+ * flooding client or a slow consumer can't flood the log. Without a socket (connection rate limits) the rejection is
+ * logged already.
+ * @param socket
+ * @param message
+ * @param context
+ */
+function warnOnce(socket: ReferencedWebSocket | undefined, message: string, context: Record<string, unknown>) {
+    if (!socket) return logger.debug(message, context);
+    let warned = warned_sockets.get(socket);
+    if (!warned) warned_sockets.set(socket, warned = new Set());
+    if (warned.has(message)) return logger.debug(message, context);
+    warned.add(message);
+    logger.warn(message, context);
+}
+
+// Controllers are disposed asynchronously by clear(), by then a new controller may own their path
+function unregister(path: string, controller: GenericWebSocketEndpointController) {
+    if (allowed_routes.get(path) === controller) allowed_routes.delete(path);
+}
+
+const inspector: Inspector = {
+    inspect: () => WebSockets.inspect(),
+    disconnect: (ref, code, reason) => WebSockets.disconnect(ref, code, reason),
+    drop: (path) => WebSockets.drop(path),
+    broadcast: (path, data) => {
+        const controller = allowed_routes.get(path);
+        if (!(controller instanceof WebSocketEndpointController)) return false;
+        controller.broadcast(data);
+        return true;
+    }
+};
+
+type UseHandler<TEvents extends ProtocolEvents> = (ws: ReferencedWebSocket<TEvents>, controller: WebSocketEndpointController<TEvents>) => unknown;
+type UseConfig<TEvents extends ProtocolEvents> = Omit<WebSocketEndpointConfig<TEvents>, 'disposer' | 'limit' | 'path'>;
+
+// Registers (once) the single-connection endpoint of `use()` and `useAsync()`
+function useEndpoint<TEvents extends ProtocolEvents>(route: string | RequestEventLike | URL, connectionHandler: UseHandler<TEvents>, config?: UseConfig<TEvents>) {
+    let path: string;
+    if (typeof route === 'string') path = route;
+    else if (route instanceof URL) path = route.pathname;
+    else path = route.url.pathname
+
+    if (!allowed_routes.has(path)) {
+        const controller: WebSocketEndpointController<TEvents> = new WebSocketEndpointController<TEvents>(path, {
+            ...config,
+            broker: config?.broker ?? default_broker,
+            keyStore: config?.keyStore ?? default_key_store,
+            limit: 1,
+            disposer: () => unregister(path, controller),
+        });
+        allowed_routes.set(path, controller);
+        endpoint_types.set(controller, 'use');
+        (controller as WebSocketEndpointController).once('connect', (socket) => {
+            socket.once('close', () => controller.destroy())
+            connectionHandler(socket as ReferencedWebSocket<TEvents>, controller)
+        })
+    }
+    return allowed_routes.get(path) as WebSocketEndpointController<TEvents>;
+}
+
+// Hooks the handlers of a `socket.server.ts` module up to its endpoint
+function register<TEvents extends ProtocolEvents>(controller: WebSocketEndpointController<TEvents>, module: SocketRouteModule<TEvents>) {
+    const events = controller as unknown as EventEmitter<WebSocketEndpointEvents>;
+    // Handler errors end up as `error` events instead of crashing the server
+    const guard = (handler: () => unknown, socket?: ReferencedWebSocket) => {
+        try {
+            const result = handler();
+            if (result instanceof Promise) result.catch((error) => reportError(controller, error, socket));
+        } catch (error) {
+            reportError(controller, error, socket);
+        }
+    };
+    const {setup, connect, message, close} = module;
+    if (setup) guard(() => setup(controller));
+    if (connect) events.on('connect', (socket) => guard(() => connect(socket as ReferencedWebSocket<TEvents>, controller), socket));
+    if (message) events.on('message', (socket, data, isBinary) => guard(() => message(socket as ReferencedWebSocket<TEvents>, data, isBinary, controller), socket));
+    if (close) events.on('disconnect', (socket, code, reason) => guard(() => close(socket as ReferencedWebSocket<TEvents>, code, reason, controller), socket));
+    return controller;
+}
 
 export const WebSockets = {
-    continuous(route: string | RequestEventLike | URL, config?: Omit<WebSocketEndpointConfig, 'disposer' | "path">) {
+    /**
+     * Registers a long-lived endpoint. The route may be a SvelteKit-style pattern such as `/rooms/[id]` or
+     * `/files/[...path]`; matched params end up in `ReferencedWebSocket.params` next to the query params.
+     * @param route
+     * @param config
+     */
+    continuous<TEvents extends ProtocolEvents = ProtocolEvents>(route: string | RequestEventLike | URL, config?: Omit<WebSocketEndpointConfig<TEvents>, 'disposer' | "path">) {
         let path: string;
         if (typeof route === 'string') {
             path = route;
@@ -716,33 +2000,77 @@ export const WebSockets = {
             path = route.url.pathname
         }
         if (!allowed_routes.has(path)) {
-            allowed_routes.set(path, new WebSocketEndpointController(path, {
+            const controller: WebSocketEndpointController<TEvents> = new WebSocketEndpointController<TEvents>(path, {
                 ...config,
-                disposer: () => allowed_routes.delete(path),
-            }));
+                broker: config?.broker ?? default_broker,
+                keyStore: config?.keyStore ?? default_key_store,
+                disposer: () => unregister(path, controller),
+            });
+            allowed_routes.set(path, controller);
+            endpoint_types.set(controller, 'continuous');
         }
-        return (allowed_routes.get(path) as WebSocketEndpointController)!;
+        const controller = allowed_routes.get(path) as WebSocketEndpointController<TEvents>;
+        if (hot_modules.endpoint(controller) && config) {
+            // A new version of the module that registered the endpoint swaps its handlers, the sockets stay connected
+            for (const [key, value] of Object.entries(config)) {
+                if (typeof value === 'function') (controller.config as Record<string, unknown>)[key] = value;
+            }
+        }
+        return controller;
     },
 
-    use(route: string | RequestEventLike | URL, connectionHandler: (ws: ReferencedWebSocket, controller: WebSocketEndpointController) => unknown, config?: Omit<WebSocketEndpointConfig, 'disposer' | 'limit' | 'path'>) {
-        let path: string;
-        if (typeof route === 'string') path = route;
-        else if (route instanceof URL) path = route.pathname;
-        else path = route.url.pathname
+    /**
+     * Registers a single-connection endpoint for the route and returns its connection url
+     * @param route
+     * @param connectionHandler
+     * @param config
+     * @throws Error when the key store is asynchronous, use {@link useAsync} instead
+     */
+    use<TEvents extends ProtocolEvents = ProtocolEvents>(route: string | RequestEventLike | URL, connectionHandler: UseHandler<TEvents>, config?: UseConfig<TEvents>) {
+        const controller = useEndpoint(route, connectionHandler, config);
+        // Keys handed out for a request carry the claims derived from it
+        return typeof route === 'object' && !(route instanceof URL) ? controller.url(undefined, {event: route}) : controller.new;
+    },
 
-        if (!allowed_routes.has(path)) {
-            const controller = new WebSocketEndpointController(path, {
-                ...config,
-                limit: 1,
-                disposer: () => allowed_routes.delete(path),
-            });
-            allowed_routes.set(path, controller);
-            controller.once('connect', (socket) => {
-                socket.once('close', () => controller.destroy())
-                connectionHandler(socket, controller)
-            })
+    /**
+     * Like {@link use}, but also works with asynchronous connection key stores (e.g. on Redis), so the key can be
+     * issued by one instance and redeemed on another
+     * @param route
+     * @param connectionHandler
+     * @param config
+     */
+    async useAsync<TEvents extends ProtocolEvents = ProtocolEvents>(route: string | RequestEventLike | URL, connectionHandler: UseHandler<TEvents>, config?: UseConfig<TEvents>): Promise<string> {
+        const controller = useEndpoint(route, connectionHandler, config);
+        return controller.issueUrl(undefined, typeof route === 'object' && !(route instanceof URL) ? {event: route} : undefined);
+    },
+
+    /**
+     * Registers the endpoint of a `socket.server.ts` route file. Registering a new version of the file swaps the
+     * handlers and keeps the sockets connected.
+     * @param route
+     * @param module
+     */
+    route<TEvents extends ProtocolEvents = ProtocolEvents>(route: string, module: SocketRouteModule<TEvents>) {
+        const done = WebSockets.hot(`route:${route}`);
+        try {
+            return register(WebSockets.continuous<TEvents>(route, module.config), module);
+        } finally {
+            done();
         }
-        return (allowed_routes.get(path) as WebSocketEndpointController)!.new;
+    },
+
+    /**
+     * Marks the evaluation of a server module in dev; the Vite plugin wraps the modules registering endpoints with it.
+     * A new version of a module removes the listeners the old one added, so its handlers replace the old ones while the
+     * sockets stay connected. The returned function ends the evaluation and destroys the endpoints the old version
+     * registered but the new one didn't.
+     * @param id the module id
+     */
+    hot(id: string): () => void {
+        const done = hot_modules.begin(id);
+        return () => {
+            for (const controller of done()) controller.destroy();
+        };
     },
 
     raw(route: string | RequestEventLike | URL, handle: UpgradeHandle) {
@@ -753,45 +2081,222 @@ export const WebSockets = {
         if (!allowed_routes.has(path)) {
             const controller = new WebSocketRawEndpointController(path, {handle});
             allowed_routes.set(path, controller)
+            endpoint_types.set(controller, 'raw');
+        }
+    },
+
+    /**
+     * Sets the broker used to reach other server instances, for existing and future endpoints without their own
+     * `broker` config. Pass undefined to go back to single-instance mode.
+     * @param broker
+     */
+    useBroker(broker: BrokerAdapter | undefined) {
+        const previous = default_broker;
+        default_broker = broker;
+        for (const controller of allowed_routes.values()) {
+            if (controller instanceof WebSocketEndpointController && (!controller.config.broker || controller.config.broker === previous)) {
+                controller.useBroker(broker);
+            }
+        }
+    },
+
+    /**
+     * Sets the connection key store for endpoints registered from now on that don't configure their own `keyStore`.
+     * Pass undefined to go back to per-endpoint in-memory stores.
+     * @param store
+     */
+    useKeyStore(store: ConnectionKeyStore | undefined) {
+        default_key_store = store;
+    },
+
+    /**
+     * Lists every registered endpoint with its type, config (as plain JSON), and connected sockets
+     */
+    inspect(): EndpointInspection[] {
+        return Array.from(allowed_routes.entries(), ([path, controller]) => {
+            const type = endpoint_types.get(controller) ?? 'continuous';
+            if (!(controller instanceof WebSocketEndpointController)) {
+                return {path, type, config: {}, connections: 0, remoteConnections: 0, rooms: {}, sockets: []};
+            }
+            const info = controller.getConnectionsInfo();
+            return {
+                path,
+                type,
+                config: describeConfig(controller.config) as Record<string, unknown>,
+                connections: info.total,
+                remoteConnections: info.remoteConnections,
+                rooms: info.rooms,
+                sockets: info.connections
+            };
+        });
+    },
+
+    /**
+     * Looks up a socket connected to this instance by its ref, on any endpoint
+     * @param ref
+     */
+    find(ref: string): { endpoint: WebSocketEndpointController, socket: ReferencedWebSocket } | undefined {
+        for (const controller of allowed_routes.values()) {
+            if (!(controller instanceof WebSocketEndpointController)) continue;
+            const socket = controller.socket(ref);
+            if (socket) return {endpoint: controller, socket};
         }
+        return undefined;
+    },
+
+    /**
+     * Closes a socket connected to this instance, returns false when there's no such socket
+     * @param ref
+     * @param code
+     * @param reason
+     */
+    disconnect(ref: string, code: number = 1000, reason?: string): boolean {
+        const found = WebSockets.find(ref);
+        found?.socket.close(code, reason);
+        return found !== undefined;
+    },
+
+    /**
+     * Closes the sockets of an endpoint with `1001 Going Away` and unregisters it
+     * @param path the route the endpoint was registered with
+     * @param options timeout in ms (default: 5000) and the close reason, see {@link clear}
+     */
+    async drop(path: string, options: { timeout?: number, reason?: string } = {}): Promise<boolean> {
+        const controller = allowed_routes.get(path);
+        if (!controller) return false;
+        allowed_routes.delete(path);
+        if (controller instanceof WebSocketEndpointController) await controller.gracefulShutdown(options.timeout, options.reason);
+        controller.destroy();
+        return true;
     },
 
-    clear() {
+    /**
+     * A SvelteKit request handler for an admin route: GET lists the endpoints like {@link inspect}, POST runs an
+     * `InspectAction` (disconnect a socket, drop an endpoint, or broadcast a message). Requests the guard rejects get
+     * a 403.
+     * @param options
+     */
+    inspectHandler(options: InspectHandlerOptions) {
+        return inspectHandler(inspector, options);
+    },
+
+    /**
+     * Counters and histograms of all endpoints, see `snapshot()` and `toPrometheus()`
+     */
+    metrics,
+
+    /**
+     * Sets where the server logs to, e.g. `console` or a pino logger. Pass undefined to go back to the default, which only
+     * logs warnings and errors to the console.
+     * @param value
+     */
+    useLogger(value: Logger | undefined) {
+        logger = value ?? defaultLogger;
+    },
+
+    /**
+     * Sets the hooks a tracer attaches to, pass undefined to remove them
+     * @param hooks
+     */
+    useInstrumentation(hooks: Instrumentation | undefined) {
+        instrumentation = hooks;
+    },
+
+    /**
+     * Sets the app's public origin for the default same-origin check, like adapter-node's `ORIGIN`. The generated
+     * `server.js` passes it read with adapter-node's `envPrefix`; pass undefined to go back to `process.env.ORIGIN`.
+     * @param origin e.g. `https://app.example`
+     */
+    useOrigin(origin: string | undefined) {
+        public_origin = origin || undefined;
+    },
+
+    /**
+     * Enables permessage-deflate for upgrades from now on (off by default). With `serverNoContextTakeover`, compressed
+     * `broadcastPrepared()` frames are shared between sockets instead of compressed per socket.
+     * @param options
+     */
+    useCompression(options: boolean | WebSocket.PerMessageDeflateOptions) {
+        server.options.perMessageDeflate = options;
+        for (const limited of payload_servers.values()) limited.options.perMessageDeflate = options;
+    },
+
+    /**
+     * Unregisters all endpoints and closes their sockets with `1001 Going Away`, resolving once the sockets closed;
+     * sockets still open after `timeout` ms are terminated
+     * @param options timeout in ms (default: 5000) and the close reason
+     */
+    async clear(options: { timeout?: number, reason?: string } = {}): Promise<void> {
         const controllers = Array.from(allowed_routes.values());
         allowed_routes.clear();
-        // Graceful shutdown for all controllers
-        Promise.all(controllers.map(async (controller) => {
+        hot_modules.clear();
+        await Promise.all(controllers.map(async (controller) => {
             if (controller instanceof WebSocketEndpointController) {
-                await controller.gracefulShutdown();
+                await controller.gracefulShutdown(options.timeout, options.reason);
             }
             controller.destroy();
-        })).finally(() => console.debug("Closed all controllers"))
+        }));
     },
 
     async upgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+        let endpoint = '';
         try {
-            const path = parseUrl(req).pathname;
-            if (!allowed_routes.has(path)) {
+            const match = allowed_routes.match(parseUrl(req).pathname);
+            if (!match) {
+                reject('', 'not_found', req, 'No endpoint');
                 socket.end();
                 return;
             }
-            const controller = allowed_routes.get(path)!;
+            const controller = match.value;
             if (controller instanceof WebSocketEndpointController) {
+                endpoint = controller.path;
+                metrics.upgrades.inc({endpoint});
+                const end = instrument(() => instrumentation?.upgrade?.({endpoint, req}));
+                if (end) upgrade_spans.set(req, end);
+
+                const decline = (reason: string, code = 400, cause: RejectionReason = 'declined') => {
+                    reject(endpoint, cause, req, reason);
+                    socket.end(
+                        `HTTP/1.1 ${code} ${STATUS_CODES[code] ?? reason}\r\n` +
+                        'Connection: close\r\n' +
+                        'Content-Type: text/plain; charset=utf-8\r\n' +
+                        `Content-Length: ${Buffer.byteLength(reason)}\r\n\r\n` +
+                        reason
+                    );
+                };
+                // Cross-site WebSocket hijacking protection, before any user code runs
+                if (!isOriginAllowed(req, controller.config.allowedOrigins, public_origin)) {
+                    controller.emit('originRejected', req.headers.origin!, req);
+                    decline('Origin not allowed', 403, 'origin');
+                    return;
+                }
+                if (controller.config.protocols) {
+                    const protocol = negotiateProtocol(parseProtocols(req.headers['sec-websocket-protocol']), controller.config.protocols);
+                    if (protocol === undefined) {
+                        decline('No acceptable subprotocol', 400, 'protocol');
+                        return;
+                    }
+                    negotiated.set(req, protocol);
+                }
+                const response = await controller.runHook(req, match.params);
+                if (response) {
+                    decline(await response.text() || (STATUS_CODES[response.status] ?? 'Upgrade declined'), response.status, 'hook');
+                    return;
+                }
                 if (!controller.beforeUpgrade) {
                     controller.beforeUpgrade = ({accept}) => accept();
                 }
                 await controller.beforeUpgrade({
                     req, head,
-                    accept: () => server.handleUpgrade(req, socket, head, (ws, req) => controller.add(ws, req)),
-                    decline: (reason, code = 1002) => {
-                        socket.write(`HTTP/1.1 ${code} ${reason}\r\n\r\n`);
-                        socket.destroy();
-                    }
+                    accept: () => serverFor(controller.config.maxPayload).handleUpgrade(req, socket, head, (ws, req) => controller.add(ws, req, match.params)),
+                    decline: (reason, code) => decline(reason, code)
                 });
             } else if (controller instanceof WebSocketRawEndpointController) {
                 await controller.handle(req, socket, head);
             }
         } catch (error) {
+            logger.error('WebSocket upgrade failed', {endpoint, error});
+            reject(endpoint, 'error', req, 'Upgrade failed');
             socket.destroy(error as Error);
         }
     },
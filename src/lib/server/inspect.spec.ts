@@ -0,0 +1,72 @@
+import {describe, expect, it, vi} from 'vitest';
+import {describeConfig, inspectHandler, type Inspector} from './inspect.js';
+
+class MemoryStore {
+}
+
+const request = (method: string, body?: unknown) => ({
+    request: new Request('http://localhost/admin/sockets', {method, body: body === undefined ? undefined : JSON.stringify(body)}),
+    url: new URL('http://localhost/admin/sockets')
+});
+
+const fakeInspector = (): Inspector => ({
+    inspect: vi.fn(() => [{path: '/chat'}]),
+    disconnect: vi.fn((ref: string) => ref === 'a'),
+    drop: vi.fn(async (path: string) => path === '/chat'),
+    broadcast: vi.fn((path: string) => path === '/chat')
+});
+
+describe('describeConfig', () => {
+    it('turns functions and class instances into descriptions', () => {
+        expect(describeConfig({
+            timeout: 1000,
+            authHandler: () => true,
+            keyStore: new MemoryStore(),
+            allowedOrigins: ['https://app.example', /\.example$/],
+            heartbeat: {interval: 30000},
+            disposer: () => undefined,
+            limit: undefined
+        })).toEqual({
+            timeout: 1000,
+            authHandler: '[function]',
+            keyStore: '[MemoryStore]',
+            allowedOrigins: ['https://app.example', '/\\.example$/'],
+            heartbeat: {interval: 30000}
+        });
+    });
+});
+
+describe('inspectHandler', () => {
+    it('answers with a 403 when the guard rejects the request', async () => {
+        const inspector = fakeInspector();
+        const handler = inspectHandler(inspector, {guard: async () => false});
+
+        expect((await handler(request('GET'))).status).toBe(403);
+        expect((await handler(request('POST', {action: 'drop', path: '/chat'}))).status).toBe(403);
+        expect(inspector.drop).not.toHaveBeenCalled();
+    });
+
+    it('lists the endpoints and runs admin actions', async () => {
+        const inspector = fakeInspector();
+        const guard = vi.fn(() => true);
+        const handler = inspectHandler(inspector, {guard});
+
+        expect(await (await handler(request('GET'))).json()).toEqual([{path: '/chat'}]);
+        expect(guard).toHaveBeenCalledWith(expect.objectContaining({url: expect.any(URL)}));
+
+        expect((await handler(request('POST', {action: 'disconnect', ref: 'a', code: 4000, reason: 'Bye'}))).status).toBe(200);
+        expect(inspector.disconnect).toHaveBeenCalledWith('a', 4000, 'Bye');
+        expect((await handler(request('POST', {action: 'disconnect', ref: 'b'}))).status).toBe(404);
+        expect((await handler(request('POST', {action: 'broadcast', path: '/chat', data: 'test'}))).status).toBe(200);
+        expect((await handler(request('POST', {action: 'drop', path: '/news'}))).status).toBe(404);
+    });
+
+    it('rejects invalid requests', async () => {
+        const handler = inspectHandler(fakeInspector(), {guard: () => true});
+
+        expect((await handler(request('DELETE'))).status).toBe(405);
+        expect((await handler(request('POST', {action: 'disconnect', ref: 'a', code: 1006}))).status).toBe(400);
+        expect((await handler(request('POST', {action: 'explode'}))).status).toBe(400);
+        expect((await handler({...request('POST'), request: new Request('http://localhost', {method: 'POST', body: '{'})})).status).toBe(400);
+    });
+});
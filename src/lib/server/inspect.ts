@@ -0,0 +1,119 @@
+type MaybePromise<T> = T | Promise<T>;
+
+export type EndpointType = 'continuous' | 'use' | 'raw';
+
+/**
+ * Admin action posted to the inspection handler
+ */
+export type InspectAction =
+    | { action: 'disconnect', ref: string, code?: number, reason?: string }
+    | { action: 'drop', path: string }
+    | { action: 'broadcast', path: string, data: string };
+
+/**
+ * What the inspection handler reads and acts on, see `WebSockets.inspectHandler()`
+ */
+export type Inspector = {
+    inspect(): unknown;
+    disconnect(ref: string, code?: number, reason?: string): boolean;
+    drop(path: string): Promise<boolean>;
+    broadcast(path: string, data: string): boolean;
+};
+
+export type InspectEvent = {
+    request: Request;
+    url: URL;
+    locals?: any;
+    getClientAddress?: () => string;
+};
+
+export type InspectHandlerOptions = {
+    // Decides whether the request may inspect and act, e.g. by checking for an admin in `event.locals`
+    guard: (event: InspectEvent) => MaybePromise<boolean>;
+};
+
+const MAX_DEPTH = 4;
+
+/**
+ * Turns an endpoint config into plain JSON: functions become `'[function]'` and class instances (stores, brokers)
+ * their class name in brackets
+ * @param value
+ * @param depth
+ */
+export function describeConfig(value: unknown, depth: number = 0): unknown {
+    if (typeof value === 'function') return '[function]';
+    if (value instanceof RegExp) return String(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) return depth >= MAX_DEPTH ? '[array]' : value.map((item) => describeConfig(item, depth + 1));
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) return `[${value.constructor?.name ?? 'object'}]`;
+    if (depth >= MAX_DEPTH) return '[object]';
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        if (item !== undefined && key !== 'disposer') result[key] = describeConfig(item, depth + 1);
+    }
+    return result;
+}
+
+// Codes an application may close with
+const isCloseCode = (code: unknown) => Number.isInteger(code) && (code === 1000 || (code as number) >= 3000 && (code as number) <= 4999);
+
+function parseAction(body: unknown): InspectAction | undefined {
+    if (!body || typeof body !== 'object') return undefined;
+    const action = body as Record<string, unknown>;
+    switch (action.action) {
+        case 'disconnect':
+            if (typeof action.ref !== 'string') return undefined;
+            if (action.code !== undefined && !isCloseCode(action.code)) return undefined;
+            // Close reasons are limited to 123 bytes
+            if (action.reason !== undefined && (typeof action.reason !== 'string' || Buffer.byteLength(action.reason) > 123)) return undefined;
+            return action as InspectAction;
+        case 'drop':
+            return typeof action.path === 'string' ? action as InspectAction : undefined;
+        case 'broadcast':
+            return typeof action.path === 'string' && typeof action.data === 'string' ? action as InspectAction : undefined;
+    }
+    return undefined;
+}
+
+const error = (status: number, message: string, headers?: Record<string, string>) =>
+    Response.json({error: message}, {status, headers});
+
+/**
+ * A SvelteKit request handler listing the endpoints on GET and running an {@link InspectAction} on POST, for requests
+ * the guard lets through
+ * @param inspector
+ * @param options
+ */
+export function inspectHandler(inspector: Inspector, options: InspectHandlerOptions) {
+    return async (event: InspectEvent): Promise<Response> => {
+        if (!await options.guard(event)) return error(403, 'Forbidden');
+
+        const method = event.request.method;
+        if (method === 'GET' || method === 'HEAD') return Response.json(inspector.inspect());
+        if (method !== 'POST') return error(405, 'Method not allowed', {Allow: 'GET, HEAD, POST'});
+
+        let body: unknown;
+        try {
+            body = await event.request.json();
+        } catch {
+            return error(400, 'Invalid JSON');
+        }
+        const action = parseAction(body);
+        if (!action) return error(400, 'Invalid action');
+
+        let done: boolean;
+        switch (action.action) {
+            case 'disconnect':
+                done = inspector.disconnect(action.ref, action.code, action.reason);
+                break;
+            case 'drop':
+                done = await inspector.drop(action.path);
+                break;
+            case 'broadcast':
+                done = inspector.broadcast(action.path, action.data);
+                break;
+        }
+        return done ? Response.json({ok: true}) : error(404, action.action === 'disconnect' ? 'Socket not found' : 'Endpoint not found');
+    };
+}
@@ -0,0 +1,57 @@
+import type {IncomingMessage} from 'node:http';
+import type {RejectionReason} from "./metrics.js";
+
+/**
+ * Receives the server's log records; `console` fits, as do pino or winston instances
+ */
+export type Logger = {
+    debug(message: string, context?: Record<string, unknown>): void;
+    info(message: string, context?: Record<string, unknown>): void;
+    warn(message: string, context?: Record<string, unknown>): void;
+    error(message: string, context?: Record<string, unknown>): void;
+};
+
+// Used until `useLogger()` sets one: warnings and failures still reach the console, the rest stays quiet
+export const defaultLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: (message, context) => console.warn(message, context),
+    error: (message, context) => console.error(message, context)
+};
+
+// Ends a span-like section, with the error that ended it if any
+export type SpanEnd = (error?: unknown) => void;
+
+/**
+ * The socket as seen by instrumentation, without tying it to the socket class
+ */
+export type InstrumentedSocket = {
+    readonly ref: string;
+    readonly clientAddress?: string;
+};
+
+/**
+ * Hooks a tracer (e.g. OpenTelemetry) can attach to. The ones starting a section return a function ending it, so
+ * they map to spans; all hooks are optional and run synchronously, errors thrown by them are ignored.
+ */
+export type Instrumentation = {
+    // From the upgrade request until the connection is accepted or rejected
+    upgrade?(info: { endpoint: string, req: IncomingMessage }): SpanEnd | void;
+    // Handling one incoming message, including the listeners it's dispatched to
+    message?(info: { endpoint: string, socket: InstrumentedSocket, size: number, binary: boolean }): SpanEnd | void;
+    connect?(info: { endpoint: string, socket: InstrumentedSocket }): void;
+    disconnect?(info: { endpoint: string, socket: InstrumentedSocket, code: number, reason: string, duration: number }): void;
+    reject?(info: { endpoint: string, reason: RejectionReason, req: IncomingMessage }): void;
+};
+
+/**
+ * Calls a hook, keeping instrumentation failures away from the connection
+ * @param hook
+ */
+export function instrument<T>(hook: () => T): T | undefined {
+    try {
+        return hook();
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,78 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {isBoundTo, MemoryConnectionKeyStore, SignedConnectionKeys, type ConnectionKeyStore} from './keys.js';
+
+const claims = (path = '/chat', ttl = 1000) => {
+    const now = Date.now();
+    return {path, issuedAt: now, expiresAt: now + ttl};
+};
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('MemoryConnectionKeyStore', () => {
+    it('consumes keys once and binds them to a path', () => {
+        const store = new MemoryConnectionKeyStore();
+        const key = store.issue(claims());
+
+        expect(store.consume(key, '/other')).toBeUndefined();
+        expect(store.consume(store.issue(claims()), '/chat')).toMatchObject({path: '/chat'});
+        expect(store.consume(key, '/chat')).toBeUndefined();
+        expect(store.size).toBe(0);
+    });
+});
+
+describe('SignedConnectionKeys', () => {
+    it('validates keys issued by another instance sharing the secret', () => {
+        const issuer = new SignedConnectionKeys({secret: 'shared'});
+        const verifier = new SignedConnectionKeys({secret: 'shared'});
+        const key = issuer.issue(claims());
+
+        expect(verifier.consume(key, '/chat')).toEqual(expect.objectContaining({path: '/chat'}));
+        expect(verifier.consume(key, '/chat')).toBeUndefined();
+        // Redeemed keys aren't pending ones
+        expect((verifier as ConnectionKeyStore).size).toBeUndefined();
+    });
+
+    it('rejects tampered, foreign, mis-bound and expired keys', () => {
+        vi.useFakeTimers();
+        const store = new SignedConnectionKeys({secret: 'shared', singleUse: false});
+        const key = store.issue(claims('/chat', 1000));
+        const [body, signature] = key.split('.');
+        const forged = Buffer.from(JSON.stringify({...claims('/admin'), nonce: 'x'})).toString('base64url');
+
+        expect(store.consume(`${forged}.${signature}`, '/admin')).toBeUndefined();
+        expect(store.consume(`${body}.${signature}x`, '/chat')).toBeUndefined();
+        expect(new SignedConnectionKeys({secret: 'other'}).consume(key, '/chat')).toBeUndefined();
+        expect(store.consume(key, '/other')).toBeUndefined();
+        expect(store.consume(key, '/chat')).toBeDefined();
+
+        vi.advanceTimersByTime(1001);
+        expect(store.consume(key, '/chat')).toBeUndefined();
+    });
+
+    it('accepts keys signed with a previous secret during rotation', () => {
+        const key = new SignedConnectionKeys({secret: 'old'}).issue(claims());
+
+        expect(new SignedConnectionKeys({secret: ['new', 'old']}).consume(key, '/chat')).toBeDefined();
+    });
+
+    it('carries subject, bindings and metadata inside the key', () => {
+        const store = new SignedConnectionKeys({secret: 'shared'});
+        const issued = {...claims(), subject: 'user-1', address: '10.0.0.1', metadata: {role: 'admin'}};
+
+        expect(store.consume(store.issue(issued), '/chat')).toEqual(issued);
+    });
+});
+
+describe('isBoundTo', () => {
+    it('checks address and origin bindings', () => {
+        const bound = {...claims(), address: '127.0.0.1', origin: 'https://app.example'};
+
+        expect(isBoundTo(claims(), {})).toBe(true);
+        expect(isBoundTo(bound, {address: '::ffff:127.0.0.1', origin: 'https://app.example'})).toBe(true);
+        expect(isBoundTo(bound, {address: '127.0.0.2', origin: 'https://app.example'})).toBe(false);
+        expect(isBoundTo(bound, {address: '127.0.0.1', origin: 'https://evil.example'})).toBe(false);
+        expect(isBoundTo(bound, {origin: 'https://app.example'})).toBe(false);
+    });
+});
@@ -0,0 +1,202 @@
+import {createHmac, randomBytes, timingSafeEqual} from 'node:crypto';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * What a connection key is valid for
+ */
+export type ConnectionKeyClaims = {
+    path: string; // route (pattern) of the endpoint that issued the key
+    pathname?: string; // concrete path the key was issued for, e.g. `/rooms/1` for `/rooms/[id]`
+    issuedAt: number;
+    expiresAt: number;
+    subject?: string; // user or session id the key was issued to
+    address?: string; // client address the key can only be redeemed from
+    origin?: string; // Origin header the upgrade request has to carry
+    metadata?: Record<string, unknown>;
+};
+
+/**
+ * The client redeeming a key, as seen by the upgrade request
+ */
+export type ConnectionKeyClient = {
+    address?: string;
+    origin?: string;
+};
+
+/**
+ * Storage for pending connection keys. Implement it on a shared store (Redis, a database, ...) when keys are issued
+ * and redeemed on different server instances.
+ */
+export interface ConnectionKeyStore {
+    /**
+     * Stores the claims and returns the key handed to the client
+     */
+    issue(claims: ConnectionKeyClaims): MaybePromise<string>;
+
+    /**
+     * Redeems a key for the given path; returns its claims, or undefined when the key is unknown, expired, already
+     * used or issued for another path
+     */
+    consume(key: string, path: string): MaybePromise<ConnectionKeyClaims | undefined>;
+
+    /**
+     * Drops keys that expired before `now`
+     */
+    expire?(now: number): MaybePromise<void>;
+
+    /**
+     * Number of pending keys, when the store can tell cheaply
+     */
+    readonly size?: number;
+}
+
+const generateKey = () => randomBytes(32).toString('base64url');
+
+// IPv4 clients on dual-stack sockets show up as IPv4-mapped IPv6 addresses
+export const normalizeAddress = (address: string) => address.startsWith('::ffff:') && address.includes('.') ? address.slice(7) : address;
+
+/**
+ * Checks the client and origin bindings of redeemed claims against the client that redeems them
+ * @param claims
+ * @param client
+ */
+export function isBoundTo(claims: ConnectionKeyClaims, client: ConnectionKeyClient): boolean {
+    if (claims.address !== undefined) {
+        if (!client.address || normalizeAddress(client.address) !== normalizeAddress(claims.address)) return false;
+    }
+    return claims.origin === undefined || claims.origin === client.origin;
+}
+
+const normalizePathname = (pathname: string) => {
+    const trimmed = pathname.length > 1 && pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+    try {
+        return decodeURIComponent(trimmed);
+    } catch {
+        return trimmed;
+    }
+};
+
+/**
+ * Checks the concrete path a key was issued for against the path it is redeemed on; keys without one are valid on
+ * any path of their route
+ * @param claims
+ * @param pathname
+ */
+export function isIssuedFor(claims: ConnectionKeyClaims, pathname: string): boolean {
+    return claims.pathname === undefined || normalizePathname(claims.pathname) === normalizePathname(pathname);
+}
+
+const isValid = (claims: ConnectionKeyClaims | undefined, path: string, now = Date.now()) =>
+    !!claims && claims.path === path && now <= claims.expiresAt;
+
+/**
+ * Default single-instance store, keeps keys in memory
+ */
+export class MemoryConnectionKeyStore implements ConnectionKeyStore {
+    private keys = new Map<string, ConnectionKeyClaims>();
+
+    get size() {
+        return this.keys.size;
+    }
+
+    issue(claims: ConnectionKeyClaims): string {
+        const key = generateKey();
+        this.keys.set(key, claims);
+        return key;
+    }
+
+    consume(key: string, path: string): ConnectionKeyClaims | undefined {
+        const claims = this.keys.get(key);
+        if (!claims) return undefined;
+        this.keys.delete(key);
+        return isValid(claims, path) ? claims : undefined;
+    }
+
+    expire(now: number) {
+        for (const [key, claims] of this.keys) {
+            if (now > claims.expiresAt) this.keys.delete(key);
+        }
+    }
+
+    clear() {
+        this.keys.clear();
+    }
+}
+
+export type SignedConnectionKeysOptions = {
+    /**
+     * HMAC secret(s). The first one signs new keys; all of them are accepted, which allows rotating secrets.
+     */
+    secret: string | Buffer | (string | Buffer)[];
+    /**
+     * Remember redeemed keys until they expire so they can't be used twice (default: true). The memory is local to
+     * this instance, so within the key lifetime a key could still be redeemed once per instance.
+     */
+    singleUse?: boolean;
+};
+
+/**
+ * Stateless keys: the claims travel inside the key, signed with HMAC-SHA256, so any instance sharing the secret can
+ * validate them without a shared store
+ */
+export class SignedConnectionKeys implements ConnectionKeyStore {
+    private readonly secrets: (string | Buffer)[];
+    private readonly redeemed?: Map<string, number>;
+
+    constructor(options: SignedConnectionKeysOptions) {
+        this.secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+        if (this.secrets.length === 0 || this.secrets.some((secret) => secret.length === 0)) {
+            throw new Error('SignedConnectionKeys requires a non-empty secret');
+        }
+        if (options.singleUse !== false) this.redeemed = new Map();
+    }
+
+    // No `size`: the pending keys are with the clients, `redeemed` only holds keys already used
+
+    issue(claims: ConnectionKeyClaims): string {
+        // The nonce keeps keys issued within the same millisecond unique
+        const body = Buffer.from(JSON.stringify({...claims, nonce: randomBytes(9).toString('base64url')})).toString('base64url');
+        return `${body}.${this.sign(body, this.secrets[0])}`;
+    }
+
+    consume(key: string, path: string): ConnectionKeyClaims | undefined {
+        const [body, signature, ...rest] = key.split('.');
+        if (!body || !signature || rest.length > 0) return undefined;
+
+        const provided = Buffer.from(signature, 'base64url');
+        const verified = this.secrets.some((secret) => {
+            const expected = Buffer.from(this.sign(body, secret), 'base64url');
+            return expected.length === provided.length && timingSafeEqual(expected, provided);
+        });
+        if (!verified) return undefined;
+
+        let claims: ConnectionKeyClaims & { nonce?: string };
+        try {
+            claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        } catch {
+            return undefined;
+        }
+        if (!isValid(claims, path)) return undefined;
+
+        // Keyed by the signed body, alternative encodings of the same signature must not allow a replay
+        if (this.redeemed) {
+            if (this.redeemed.has(body)) return undefined;
+            this.redeemed.set(body, claims.expiresAt);
+        }
+
+        const {nonce: _nonce, ...verifiedClaims} = claims;
+        return verifiedClaims;
+    }
+
+    expire(now: number) {
+        if (!this.redeemed) return;
+        for (const [body, expiresAt] of this.redeemed) {
+            if (now > expiresAt) this.redeemed.delete(body);
+        }
+    }
+
+    private sign(body: string, secret: string | Buffer) {
+        return createHmac('sha256', secret).update(body).digest('base64url');
+    }
+}
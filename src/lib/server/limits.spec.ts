@@ -0,0 +1,19 @@
+import {describe, expect, it} from 'vitest';
+import {TokenBucket} from './limits.js';
+
+describe('TokenBucket', () => {
+    it('allows a burst and refills at the configured rate', () => {
+        const bucket = new TokenBucket(2, 3, 0);
+
+        expect([bucket.take(0), bucket.take(0), bucket.take(0), bucket.take(0)]).toEqual([true, true, true, false]);
+        expect(bucket.take(250)).toBe(false);
+        expect(bucket.take(500)).toBe(true);
+        expect(bucket.take(500)).toBe(false);
+    });
+
+    it('never holds more than the burst', () => {
+        const bucket = new TokenBucket(10, 2, 0);
+
+        expect([bucket.take(60_000), bucket.take(60_000), bucket.take(60_000)]).toEqual([true, true, false]);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * What happens to a message over the rate limit: discard it, process it anyway (only report it), or close the socket
+ * with `WebSocketError.RATE_LIMITED`
+ */
+export type RateLimitAction = 'drop' | 'warn' | 'close';
+
+export type MessageRateLimit = {
+    rate: number; // messages per second
+    burst?: number; // messages allowed at once, default: rate
+    action?: RateLimitAction; // default: 'close'
+};
+
+/**
+ * Token bucket refilled continuously at `rate` tokens per second, holding at most `burst` tokens
+ */
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(private readonly rate: number, private readonly burst: number = rate, now: number = Date.now()) {
+        this.tokens = burst;
+        this.updatedAt = now;
+    }
+
+    /**
+     * Takes a token, returns false when the bucket is empty
+     * @param now
+     */
+    take(now: number = Date.now()): boolean {
+        this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) * this.rate / 1000);
+        this.updatedAt = now;
+        if (this.tokens < 1) return false;
+        this.tokens--;
+        return true;
+    }
+}
@@ -0,0 +1,58 @@
+import {describe, expect, it} from 'vitest';
+import {byteLength, Counter, formatPrometheus, Histogram, WebSocketMetrics} from './metrics.js';
+
+describe('metrics', () => {
+    it('keeps one value per label combination', () => {
+        const counter = new Counter('messages_total', 'Messages');
+        counter.inc({endpoint: '/chat', reason: 'auth'});
+        counter.inc({reason: 'auth', endpoint: '/chat'}, 2);
+        counter.inc({endpoint: '/news', reason: 'auth'});
+        counter.dec({endpoint: '/news', reason: 'auth'});
+
+        expect(counter.get({endpoint: '/chat', reason: 'auth'})).toBe(3);
+        expect(counter.get({endpoint: '/news', reason: 'auth'})).toBe(0);
+        expect(counter.get({endpoint: '/feed'})).toBe(0);
+    });
+
+    it('renders counters and cumulative histogram buckets in the Prometheus text format', () => {
+        const counter = new Counter('ws_connections_total', 'Connections accepted');
+        counter.inc({endpoint: '/rooms/[id]'}, 2);
+        counter.inc({endpoint: 'say "hi"\n'});
+        const histogram = new Histogram('ws_duration_seconds', 'Durations', [1, 10]);
+        histogram.observe({endpoint: '/chat'}, 0.5);
+        histogram.observe({endpoint: '/chat'}, 5);
+        histogram.observe({endpoint: '/chat'}, 20);
+
+        expect(formatPrometheus([counter.collect(), histogram.collect()])).toBe([
+            '# HELP ws_connections_total Connections accepted',
+            '# TYPE ws_connections_total counter',
+            'ws_connections_total{endpoint="/rooms/[id]"} 2',
+            'ws_connections_total{endpoint="say \\"hi\\"\\n"} 1',
+            '# HELP ws_duration_seconds Durations',
+            '# TYPE ws_duration_seconds histogram',
+            'ws_duration_seconds_bucket{endpoint="/chat",le="1"} 1',
+            'ws_duration_seconds_bucket{endpoint="/chat",le="10"} 2',
+            'ws_duration_seconds_bucket{endpoint="/chat",le="+Inf"} 3',
+            'ws_duration_seconds_sum{endpoint="/chat"} 25.5',
+            'ws_duration_seconds_count{endpoint="/chat"} 3',
+            ''
+        ].join('\n'));
+    });
+
+    it('measures message data in bytes', () => {
+        expect(byteLength('héllo')).toBe(6);
+        expect(byteLength(Buffer.alloc(4))).toBe(4);
+        expect(byteLength(new ArrayBuffer(3))).toBe(3);
+        expect(byteLength([Buffer.alloc(2), Buffer.alloc(3)])).toBe(5);
+        expect(byteLength(42)).toBe(0);
+    });
+
+    it('resets every metric', () => {
+        const metrics = new WebSocketMetrics();
+        metrics.connections.inc({endpoint: '/chat'});
+        metrics.duration.observe({endpoint: '/chat'}, 1);
+        metrics.reset();
+
+        expect(metrics.snapshot().every((family) => family.samples.length === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,188 @@
+export type MetricLabels = Record<string, string>;
+
+export type MetricSample = {
+    labels: MetricLabels;
+    value: number;
+};
+
+export type HistogramSample = {
+    labels: MetricLabels;
+    buckets: { le: number, count: number }[]; // cumulative, without the +Inf bucket (that's `count`)
+    sum: number;
+    count: number;
+};
+
+export type MetricFamily =
+    | { name: string, help: string, type: 'counter' | 'gauge', samples: MetricSample[] }
+    | { name: string, help: string, type: 'histogram', samples: HistogramSample[] };
+
+/**
+ * Why an upgrade or a just upgraded connection was turned away
+ */
+export type RejectionReason =
+    | 'not_found' // no endpoint for the path
+    | 'origin'
+    | 'protocol' // no acceptable subprotocol
+    | 'hook'
+    | 'declined' // by `beforeUpgrade`
+    | 'rate_limit'
+    | 'too_many_connections'
+    | 'invalid_key'
+    | 'missing_param'
+    | 'auth'
+    | 'closed' // the client went away while its key or authentication was checked
+    | 'error';
+
+// Seconds, from short-lived page visits to long sessions
+export const DURATION_BUCKETS = [1, 5, 15, 60, 300, 900, 3600, 14400];
+
+const labelKey = (labels: MetricLabels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * A counter, or a gauge when it may go down, with one value per label combination
+ */
+export class Counter {
+    private values = new Map<string, MetricSample>();
+
+    constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' = 'counter') {
+    }
+
+    inc(labels: MetricLabels, value: number = 1) {
+        const key = labelKey(labels);
+        const sample = this.values.get(key);
+        if (sample) sample.value += value;
+        else this.values.set(key, {labels, value});
+    }
+
+    dec(labels: MetricLabels, value: number = 1) {
+        this.inc(labels, -value);
+    }
+
+    get(labels: MetricLabels): number {
+        return this.values.get(labelKey(labels))?.value ?? 0;
+    }
+
+    collect(): MetricFamily {
+        return {name: this.name, help: this.help, type: this.type, samples: Array.from(this.values.values(), (sample) => ({...sample}))};
+    }
+
+    reset() {
+        this.values.clear();
+    }
+}
+
+export class Histogram {
+    private values = new Map<string, { labels: MetricLabels, counts: number[], sum: number, count: number }>();
+
+    constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {
+    }
+
+    observe(labels: MetricLabels, value: number) {
+        const key = labelKey(labels);
+        let sample = this.values.get(key);
+        if (!sample) {
+            sample = {labels, counts: this.buckets.map(() => 0), sum: 0, count: 0};
+            this.values.set(key, sample);
+        }
+        this.buckets.forEach((le, index) => {
+            if (value <= le) sample.counts[index]++;
+        });
+        sample.sum += value;
+        sample.count++;
+    }
+
+    collect(): MetricFamily {
+        return {
+            name: this.name,
+            help: this.help,
+            type: 'histogram',
+            samples: Array.from(this.values.values(), ({labels, counts, sum, count}) => ({
+                labels,
+                buckets: this.buckets.map((le, index) => ({le, count: counts[index]})),
+                sum,
+                count
+            }))
+        };
+    }
+
+    reset() {
+        this.values.clear();
+    }
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+    const entries = Object.entries({...labels, ...extra});
+    if (entries.length === 0) return '';
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+/**
+ * Renders metric families in the Prometheus text exposition format
+ * @param families
+ */
+export function formatPrometheus(families: MetricFamily[]): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+        if (family.type !== 'histogram') {
+            for (const {labels, value} of family.samples) lines.push(`${family.name}${formatLabels(labels)} ${value}`);
+            continue;
+        }
+        for (const {labels, buckets, sum, count} of family.samples) {
+            for (const {le, count} of buckets) lines.push(`${family.name}_bucket${formatLabels(labels, {le: String(le)})} ${count}`);
+            lines.push(`${family.name}_bucket${formatLabels(labels, {le: '+Inf'})} ${count}`);
+            lines.push(`${family.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${family.name}_count${formatLabels(labels)} ${count}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Byte size of outgoing or incoming message data, 0 for anything that isn't a string or binary
+ * @param data
+ */
+export function byteLength(data: unknown): number {
+    if (typeof data === 'string') return Buffer.byteLength(data);
+    if (Array.isArray(data)) return data.reduce((total: number, chunk) => total + byteLength(chunk), 0);
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+    return 0;
+}
+
+/**
+ * Counters and histograms of all endpoints, labeled with the endpoint's route. Read them with {@link snapshot} or
+ * {@link toPrometheus} through `websockets.metrics`.
+ */
+export class WebSocketMetrics {
+    readonly upgrades = new Counter('websocket_upgrades_total', 'Upgrade requests per endpoint');
+    readonly rejections = new Counter('websocket_rejections_total', 'Upgrades and new connections turned away, by reason');
+    readonly connections = new Counter('websocket_connections_total', 'Connections accepted');
+    readonly active = new Counter('websocket_connections_active', 'Connections currently open', 'gauge');
+    readonly messagesReceived = new Counter('websocket_messages_received_total', 'Messages received');
+    readonly messagesSent = new Counter('websocket_messages_sent_total', 'Messages sent');
+    readonly bytesReceived = new Counter('websocket_received_bytes_total', 'Message payload bytes received');
+    readonly bytesSent = new Counter('websocket_sent_bytes_total', 'Message payload bytes sent');
+    readonly sendErrors = new Counter('websocket_send_errors_total', 'Sends that failed');
+    readonly duration = new Histogram('websocket_connection_duration_seconds', 'How long connections stayed open', DURATION_BUCKETS);
+
+    private get all() {
+        return [
+            this.upgrades, this.rejections, this.connections, this.active, this.messagesReceived, this.messagesSent,
+            this.bytesReceived, this.bytesSent, this.sendErrors, this.duration
+        ];
+    }
+
+    snapshot(): MetricFamily[] {
+        return this.all.map((metric) => metric.collect());
+    }
+
+    toPrometheus(): string {
+        return formatPrometheus(this.snapshot());
+    }
+
+    reset() {
+        for (const metric of this.all) metric.reset();
+    }
+}
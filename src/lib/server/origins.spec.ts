@@ -0,0 +1,39 @@
+import type {IncomingMessage} from 'node:http';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {isOriginAllowed} from './origins.js';
+
+const request = (origin?: string, host = 'app.example') =>
+    ({headers: {host, ...(origin === undefined ? {} : {origin})}}) as IncomingMessage;
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe('isOriginAllowed', () => {
+    it('defaults to same-origin and allows clients without an Origin header', () => {
+        expect(isOriginAllowed(request('https://app.example'))).toBe(true);
+        expect(isOriginAllowed(request('http://app.example'))).toBe(true);
+        expect(isOriginAllowed(request('https://evil.example'))).toBe(false);
+        expect(isOriginAllowed(request('null'))).toBe(false);
+        expect(isOriginAllowed(request())).toBe(true);
+    });
+
+    it('accepts the configured adapter-node ORIGIN', () => {
+        vi.stubEnv('ORIGIN', 'https://public.example');
+
+        expect(isOriginAllowed(request('https://public.example', 'internal:3000'))).toBe(true);
+        // An origin passed in, e.g. read with adapter-node's envPrefix, takes precedence
+        expect(isOriginAllowed(request('https://prefixed.example', 'internal:3000'), undefined, 'https://prefixed.example')).toBe(true);
+        expect(isOriginAllowed(request('https://public.example', 'internal:3000'), undefined, 'https://prefixed.example')).toBe(false);
+    });
+
+    it('matches strings, regexes and predicates', () => {
+        const allowed = ['https://a.example', /^https:\/\/[\w-]+\.b\.example$/, (origin: string) => origin.endsWith('.c.example')];
+
+        expect(isOriginAllowed(request('https://a.example'), allowed)).toBe(true);
+        expect(isOriginAllowed(request('https://x.b.example'), allowed)).toBe(true);
+        expect(isOriginAllowed(request('https://y.c.example'), allowed)).toBe(true);
+        expect(isOriginAllowed(request('https://app.example'), allowed)).toBe(false);
+        expect(isOriginAllowed(request('https://evil.example'), '*')).toBe(true);
+    });
+});
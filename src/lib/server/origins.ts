@@ -0,0 +1,50 @@
+import type {IncomingMessage} from 'node:http';
+
+/**
+ * An allowed origin: an exact origin (`https://app.example`), `'*'` for any origin, a regex tested against the
+ * origin or a predicate
+ */
+export type OriginMatcher = string | RegExp | ((origin: string, req: IncomingMessage) => boolean);
+
+export type AllowedOrigins = OriginMatcher | OriginMatcher[];
+
+const hostOf = (origin: string) => {
+    try {
+        return new URL(origin).host;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * SvelteKit's same-origin check: the page origin has to match the host the upgrade request was sent to, or the
+ * `ORIGIN` adapter-node is configured with. The scheme isn't compared since TLS is often terminated by a proxy.
+ * @param origin
+ * @param req
+ * @param publicOrigin the app's public origin, defaults to the `ORIGIN` environment variable
+ */
+export function isSameOrigin(origin: string, req: IncomingMessage, publicOrigin = process.env.ORIGIN): boolean {
+    if (publicOrigin && origin === publicOrigin) return true;
+    const host = hostOf(origin);
+    return host !== undefined && host === req.headers.host;
+}
+
+/**
+ * Checks the `Origin` header of an upgrade request. Requests without one don't come from a browser, so they can't be
+ * used for cross-site WebSocket hijacking and are allowed.
+ * @param req
+ * @param allowed defaults to same-origin
+ * @param publicOrigin see {@link isSameOrigin}
+ */
+export function isOriginAllowed(req: IncomingMessage, allowed?: AllowedOrigins, publicOrigin?: string): boolean {
+    const origin = req.headers.origin;
+    if (origin === undefined) return true;
+    if (allowed === undefined) return isSameOrigin(origin, req, publicOrigin);
+
+    const matchers = Array.isArray(allowed) ? allowed : [allowed];
+    return matchers.some((matcher) => {
+        if (typeof matcher === 'function') return matcher(origin, req);
+        if (matcher instanceof RegExp) return matcher.test(origin);
+        return matcher === '*' || matcher === origin;
+    });
+}
@@ -0,0 +1,42 @@
+import {constants, inflateRawSync} from 'node:zlib';
+import {describe, expect, it} from 'vitest';
+import {frameHeader, prepareMessage, PreparedMessage} from './prepared.js';
+
+describe('PreparedMessage', () => {
+    it('encodes the payload length in the frame header', () => {
+        expect([...frameHeader(5, 0x01, false)]).toEqual([0x81, 5]);
+        expect([...frameHeader(300, 0x02, true)]).toEqual([0xc2, 126, 0x01, 0x2c]);
+        expect([...frameHeader(0x10000, 0x01, false)]).toEqual([0x81, 127, 0, 0, 0, 0, 0, 1, 0, 0]);
+    });
+
+    it('frames small messages uncompressed', () => {
+        const message = prepareMessage('hello');
+        const [header, payload] = message.frame(15);
+
+        expect(message.compress).toBe(false);
+        expect([...header]).toEqual([0x81, 5]);
+        expect(payload.toString()).toBe('hello');
+    });
+
+    it('compresses once per window size', () => {
+        const text = 'tick '.repeat(1000);
+        const message = new PreparedMessage(text);
+        const frame = message.frame(15);
+        const [header, payload] = frame;
+
+        expect(message.frame(15)).toBe(frame);
+        expect(header[0]).toBe(0xc1);
+        expect(payload.length).toBeLessThan(text.length);
+        const trailer = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+        expect(inflateRawSync(Buffer.concat([payload, trailer]), {finishFlush: constants.Z_SYNC_FLUSH}).toString()).toBe(text);
+        expect(message.frame(undefined)[1]).toBe(message.payload);
+    });
+
+    it('keeps binary data binary', () => {
+        const message = prepareMessage(new Uint8Array([1, 2, 3]));
+
+        expect(message.binary).toBe(true);
+        expect(message.frame()[0][0]).toBe(0x82);
+        expect(prepareMessage(message)).toBe(message);
+    });
+});
@@ -0,0 +1,90 @@
+import {constants, deflateRawSync} from 'node:zlib';
+
+export type PreparedMessageData = string | Buffer | ArrayBuffer | ArrayBufferView;
+
+export type PrepareOptions = {
+    binary?: boolean; // default: false for strings, true otherwise
+    compress?: boolean; // default: true, applies to sockets that negotiated permessage-deflate
+};
+
+// Same default as ws: smaller messages aren't worth compressing
+export const COMPRESSION_THRESHOLD = 1024;
+
+const OPCODE_TEXT = 0x01;
+const OPCODE_BINARY = 0x02;
+// Sync-flushed deflate output ends with an empty block, which permessage-deflate leaves out
+const DEFLATE_TRAILER_LENGTH = 4;
+
+/**
+ * Header of an unmasked (server to client) frame with FIN set
+ * @param length payload length in bytes
+ * @param opcode
+ * @param rsv1 set for compressed payloads
+ */
+export function frameHeader(length: number, opcode: number, rsv1: boolean): Buffer {
+    const first = 0x80 | (rsv1 ? 0x40 : 0) | opcode;
+    if (length < 126) return Buffer.from([first, length]);
+    if (length < 0x10000) {
+        const header = Buffer.allocUnsafe(4);
+        header[0] = first;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+        return header;
+    }
+    const header = Buffer.allocUnsafe(10);
+    header[0] = first;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+    return header;
+}
+
+/**
+ * A message framed once, and compressed once per negotiated window size, so the same bytes can be written to any
+ * number of sockets. See `WebSocketEndpointController.broadcastPrepared()`.
+ */
+export class PreparedMessage {
+    readonly payload: Buffer;
+    readonly binary: boolean;
+    readonly compress: boolean;
+    private plain?: Buffer[];
+    private deflated = new Map<number, Buffer[]>();
+
+    constructor(data: PreparedMessageData, options: PrepareOptions = {}) {
+        if (typeof data === 'string') this.payload = Buffer.from(data);
+        else if (Buffer.isBuffer(data)) this.payload = data;
+        else if (ArrayBuffer.isView(data)) this.payload = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+        else this.payload = Buffer.from(data);
+        this.binary = options.binary ?? typeof data !== 'string';
+        this.compress = (options.compress ?? true) && this.payload.length >= COMPRESSION_THRESHOLD;
+    }
+
+    /**
+     * The frame for a socket, as header and payload
+     * @param windowBits the socket's negotiated `server_max_window_bits`, undefined for an uncompressed frame
+     */
+    frame(windowBits?: number): Buffer[] {
+        const opcode = this.binary ? OPCODE_BINARY : OPCODE_TEXT;
+        // zlib can't produce raw deflate streams for windows below 9 bits
+        if (!this.compress || windowBits === undefined || windowBits < 9) {
+            this.plain ??= [frameHeader(this.payload.length, opcode, false), this.payload];
+            return this.plain;
+        }
+        let frame = this.deflated.get(windowBits);
+        if (!frame) {
+            const deflated = deflateRawSync(this.payload, {windowBits, finishFlush: constants.Z_SYNC_FLUSH});
+            const payload = deflated.subarray(0, deflated.length - DEFLATE_TRAILER_LENGTH);
+            frame = [frameHeader(payload.length, opcode, true), payload];
+            this.deflated.set(windowBits, frame);
+        }
+        return frame;
+    }
+}
+
+/**
+ * Frames a message once for a broadcast to many sockets
+ * @param data
+ * @param options
+ */
+export function prepareMessage(data: PreparedMessageData | PreparedMessage, options?: PrepareOptions): PreparedMessage {
+    return data instanceof PreparedMessage ? data : new PreparedMessage(data, options);
+}
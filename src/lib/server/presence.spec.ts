@@ -0,0 +1,57 @@
+import {describe, expect, it, vi} from 'vitest';
+import {PresenceTracker} from './presence.js';
+
+const socket = (ref: string) => ({ref});
+
+describe('PresenceTracker', () => {
+    it('joins a key with its first socket and leaves with its last one', () => {
+        const onDiff = vi.fn();
+        const tracker = new PresenceTracker<{ ref: string }, { name: string }>(onDiff);
+        const tab1 = socket('tab1');
+        const tab2 = socket('tab2');
+
+        expect(tracker.track(tab1, 'ada', {name: 'Ada'})).toEqual({joins: {ada: {name: 'Ada'}}, leaves: {}, updates: {}});
+        expect(tracker.track(tab2, 'ada', {name: 'ignored'})).toBeUndefined();
+        expect(tracker.get('ada')).toMatchObject({key: 'ada', state: {name: 'Ada'}, connections: 2});
+        expect(tracker.sockets('ada')).toEqual([tab1, tab2]);
+
+        expect(tracker.untrack(tab1)).toBeUndefined();
+        expect(tracker.untrack('tab2')).toEqual({joins: {}, leaves: {ada: {name: 'Ada'}}, updates: {}});
+        expect(tracker.untrack('tab2')).toBeUndefined();
+        expect(tracker.size).toBe(0);
+        expect(onDiff).toHaveBeenCalledTimes(2);
+    });
+
+    it('updates the state of a present key for all of its sockets', () => {
+        const tracker = new PresenceTracker<{ ref: string }, { typing: boolean }>();
+        tracker.track(socket('a'), 'ada', {typing: false});
+        tracker.track(socket('b'), 'ada', {typing: false});
+
+        expect(tracker.update('ada', (state) => ({...state, typing: true}))).toEqual({joins: {}, leaves: {}, updates: {ada: {typing: true}}});
+        expect(tracker.update('grace', {typing: true})).toBeUndefined();
+        expect(tracker.state()).toEqual({ada: {typing: true}});
+
+        // The state outlives the socket it joined with
+        tracker.untrack('a');
+        expect(tracker.get('ada')?.state).toEqual({typing: true});
+    });
+
+    it('moves a socket tracked under another key', () => {
+        const tracker = new PresenceTracker();
+        const tab = socket('tab');
+        tracker.track(tab, 'guest', null);
+
+        expect(tracker.track(tab, 'ada', 1)).toEqual({joins: {ada: 1}, leaves: {guest: null}, updates: {}});
+        expect(tracker.track(tab, 'ada', 2)).toBeUndefined();
+        expect(tracker.keyOf(tab)).toBe('ada');
+        expect(tracker.list().map((entry) => entry.key)).toEqual(['ada']);
+    });
+
+    it('keeps keys like __proto__ as own entries', () => {
+        const tracker = new PresenceTracker();
+        const diff = tracker.track(socket('a'), '__proto__', 'x');
+
+        expect(Object.keys(diff!.joins)).toEqual(['__proto__']);
+        expect(JSON.parse(JSON.stringify(tracker.state()))).toEqual(JSON.parse('{"__proto__":"x"}'));
+    });
+});
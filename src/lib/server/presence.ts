@@ -0,0 +1,171 @@
+import {emptyDiff, isEmptyDiff, type PresenceDiff, type PresenceState} from "../shared/presence.js";
+
+type PresenceMember = { readonly ref: string };
+
+type PresenceRecord<TSocket, TState> = {
+    state: TState;
+    sockets: Map<string, TSocket>;
+    since: number;
+};
+
+/**
+ * A present key as listed by {@link PresenceTracker.list}
+ */
+export type PresenceEntry<TState = unknown> = {
+    key: string;
+    state: TState;
+    connections: number; // sockets tracked under the key, e.g. open tabs of a user
+    since: number; // when the key joined, in millis
+};
+
+/**
+ * Automatic presence tracking of an endpoint: each connecting socket is tracked under its key, and sockets receive a
+ * `presence_state` event when they connect and `presence_diff` events after that
+ */
+export type PresenceConfig<TSocket, TState = unknown> = {
+    // Key of a connecting socket, e.g. a user id; undefined leaves it untracked. Defaults to `metadata.subject`.
+    key?: (socket: TSocket) => string | undefined;
+    // State of a key joining with this socket, defaults to `{}`
+    state?: (socket: TSocket) => TState;
+    // Sends presence events to the sockets (default: true); `presenceDiff` controller events are emitted either way
+    sync?: boolean;
+};
+
+// Own property, so keys like `__proto__` don't end up as prototype writes
+const define = <T>(record: PresenceState<T>, key: string, value: T) =>
+    Object.defineProperty(record, key, {value, enumerable: true, writable: true, configurable: true});
+
+/**
+ * Tracks sockets under keys (a user with several tabs has one key and several sockets) and turns changes into
+ * {@link PresenceDiff}s: a key joins with its first socket and leaves with its last one
+ */
+export class PresenceTracker<TSocket extends PresenceMember = PresenceMember, TState = unknown> {
+    private records = new Map<string, PresenceRecord<TSocket, TState>>();
+    private keys = new Map<string, string>(); // ref -> key
+
+    /**
+     * @param onDiff called with every diff that isn't empty
+     */
+    constructor(private readonly onDiff?: (diff: PresenceDiff<TState>) => void) {
+    }
+
+    /**
+     * Tracks a socket under a key, moving it when it was tracked under another key. The state only applies when the
+     * key joins with this socket, use {@link update} to change the state of a present key.
+     * @param socket
+     * @param key
+     * @param state
+     */
+    track(socket: TSocket, key: string, state: TState): PresenceDiff<TState> | undefined {
+        const current = this.keys.get(socket.ref);
+        if (current === key) return undefined;
+
+        const diff = emptyDiff<TState>();
+        if (current !== undefined) this.remove(socket.ref, current, diff);
+
+        let record = this.records.get(key);
+        if (!record) {
+            record = {state, sockets: new Map(), since: Date.now()};
+            this.records.set(key, record);
+            define(diff.joins, key, state);
+        }
+        record.sockets.set(socket.ref, socket);
+        this.keys.set(socket.ref, key);
+        return this.changed(diff);
+    }
+
+    /**
+     * Stops tracking a socket
+     * @param socket
+     */
+    untrack(socket: TSocket | string): PresenceDiff<TState> | undefined {
+        const ref = typeof socket === 'string' ? socket : socket.ref;
+        const key = this.keys.get(ref);
+        if (key === undefined) return undefined;
+        const diff = emptyDiff<TState>();
+        this.remove(ref, key, diff);
+        return this.changed(diff);
+    }
+
+    /**
+     * Replaces the state of a present key, for all of its sockets
+     * @param key
+     * @param state the new state, or a function returning it from the current one
+     */
+    update(key: string, state: TState | ((current: TState) => TState)): PresenceDiff<TState> | undefined {
+        const record = this.records.get(key);
+        if (!record) return undefined;
+        const next = typeof state === 'function' ? (state as (current: TState) => TState)(record.state) : state;
+        if (Object.is(next, record.state)) return undefined;
+        record.state = next;
+        const diff = emptyDiff<TState>();
+        define(diff.updates, key, next);
+        return this.changed(diff);
+    }
+
+    /**
+     * Returns the key a socket is tracked under
+     * @param socket
+     */
+    keyOf(socket: TSocket | string): string | undefined {
+        return this.keys.get(typeof socket === 'string' ? socket : socket.ref);
+    }
+
+    has(key: string): boolean {
+        return this.records.has(key);
+    }
+
+    get(key: string): PresenceEntry<TState> | undefined {
+        const record = this.records.get(key);
+        return record && {key, state: record.state, connections: record.sockets.size, since: record.since};
+    }
+
+    /**
+     * Returns the sockets tracked under a key
+     * @param key
+     */
+    sockets(key: string): TSocket[] {
+        return Array.from(this.records.get(key)?.sockets.values() ?? []);
+    }
+
+    list(): PresenceEntry<TState>[] {
+        return Array.from(this.records.keys(), (key) => this.get(key)!);
+    }
+
+    /**
+     * Returns the state of every present key, as sent in `presence_state` events
+     */
+    state(): PresenceState<TState> {
+        const state: PresenceState<TState> = {};
+        for (const [key, record] of this.records) define(state, key, record.state);
+        return state;
+    }
+
+    get size(): number {
+        return this.records.size;
+    }
+
+    /**
+     * Forgets every key without reporting leaves
+     */
+    clear() {
+        this.records.clear();
+        this.keys.clear();
+    }
+
+    private remove(ref: string, key: string, diff: PresenceDiff<TState>) {
+        this.keys.delete(ref);
+        const record = this.records.get(key);
+        if (!record) return;
+        record.sockets.delete(ref);
+        if (record.sockets.size > 0) return;
+        this.records.delete(key);
+        define(diff.leaves, key, record.state);
+    }
+
+    private changed(diff: PresenceDiff<TState>): PresenceDiff<TState> | undefined {
+        if (isEmptyDiff(diff)) return undefined;
+        this.onDiff?.(diff);
+        return diff;
+    }
+}
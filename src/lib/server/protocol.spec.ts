@@ -0,0 +1,51 @@
+import {describe, expect, it} from 'vitest';
+import {decodeEvent, encodeEvent, parseEvent, ProtocolError, validatePayload} from './protocol.js';
+
+const frame = (value: unknown) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value));
+
+const codeOf = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (error) {
+        return error instanceof ProtocolError ? error.code : 'not a ProtocolError';
+    }
+    return undefined;
+};
+
+describe('typed message protocol', () => {
+    it('round-trips envelopes', () => {
+        expect(decodeEvent(frame(encodeEvent('chat', {text: 'hi'})), false)).toEqual({event: 'chat', data: {text: 'hi'}});
+    });
+
+    it('rejects malformed frames', () => {
+        expect(codeOf(() => decodeEvent(frame('not json'), false))).toBe('MALFORMED_FRAME');
+        expect(codeOf(() => decodeEvent(frame([1, 2]), false))).toBe('MALFORMED_FRAME');
+        expect(codeOf(() => decodeEvent(frame({data: 1}), false))).toBe('MALFORMED_FRAME');
+        expect(codeOf(() => decodeEvent(frame({event: 'chat'}), true))).toBe('MALFORMED_FRAME');
+    });
+
+    it('supports type guards, parse() schemas and standard schemas', () => {
+        const isString = (payload: unknown): payload is string => typeof payload === 'string';
+        const parser = {parse: (payload: unknown) => Number(payload)};
+        const standard = {
+            '~standard': {
+                validate: (value: unknown) => typeof value === 'boolean' ? {value} : {issues: [{message: 'expected boolean'}]}
+            }
+        };
+
+        expect(validatePayload('a', isString, 'x')).toBe('x');
+        expect(codeOf(() => validatePayload('a', isString, 1))).toBe('INVALID_PAYLOAD');
+        expect(validatePayload('b', parser, '42')).toBe(42);
+        expect(validatePayload('c', standard, true)).toBe(true);
+        expect(() => validatePayload('c', standard, 'yes')).toThrow('expected boolean');
+    });
+
+    it('rejects events without a validator once validators are declared', () => {
+        const config = {validators: {chat: (payload: unknown) => typeof payload === 'string'}};
+
+        expect(parseEvent(config, frame({event: 'chat', data: 'hi'}), false)).toEqual({event: 'chat', data: 'hi'});
+        expect(codeOf(() => parseEvent(config, frame({event: 'other', data: 'hi'}), false))).toBe('UNKNOWN_EVENT');
+        expect(codeOf(() => parseEvent(config, frame({event: 'toString', data: 'hi'}), false))).toBe('UNKNOWN_EVENT');
+        expect(parseEvent({}, frame({event: 'other', data: 1}), false)).toEqual({event: 'other', data: 1});
+    });
+});
@@ -0,0 +1,135 @@
+import type {RawData} from 'ws';
+
+/**
+ * Map of event names to their payload types, e.g. `{ chat: { text: string }, typing: boolean }`
+ */
+export type ProtocolEvents = Record<string, unknown>;
+
+// Structural subset of the Standard Schema spec (zod, valibot, arktype, ...)
+type StandardSchemaLike<T> = {
+    readonly '~standard': {
+        validate(value: unknown): { value: T; issues?: undefined } | { issues: ReadonlyArray<{ message: string }> } | Promise<unknown>;
+    };
+};
+
+/**
+ * Runtime payload check: a type guard, a schema with `parse()` that throws on invalid input, or a Standard Schema
+ */
+export type PayloadValidator<T> =
+    | ((payload: unknown) => payload is T)
+    | ((payload: unknown) => boolean)
+    | { parse(payload: unknown): T }
+    | StandardSchemaLike<T>;
+
+export type ProtocolConfig<TEvents extends ProtocolEvents = ProtocolEvents> = {
+    /**
+     * Validators per event. When given, events without a validator are rejected as unknown.
+     */
+    validators?: { [K in keyof TEvents]?: PayloadValidator<TEvents[K]> };
+    /**
+     * What to do with frames that can't be dispatched (default: `reply`)
+     * - `reply` sends an `error` event with a {@link ProtocolErrorCode}
+     * - `close` closes the socket with `WebSocketError.INVALID_PAYLOAD` or `WebSocketError.UNSUPPORTED_DATA`
+     * - `ignore` drops the frame
+     */
+    onInvalid?: 'reply' | 'close' | 'ignore';
+};
+
+export type ProtocolErrorCode = 'MALFORMED_FRAME' | 'UNKNOWN_EVENT' | 'INVALID_PAYLOAD';
+
+export type ProtocolEnvelope<TEvent extends string = string, TData = unknown> = {
+    event: TEvent;
+    data: TData;
+};
+
+export class ProtocolError extends Error {
+    constructor(public readonly code: ProtocolErrorCode, message: string, public readonly event?: string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+/**
+ * Event name used for the standard error reply on invalid frames
+ */
+export const PROTOCOL_ERROR_EVENT = 'error';
+
+export function encodeEvent(event: string, data: unknown): string {
+    return JSON.stringify({event, data} satisfies ProtocolEnvelope);
+}
+
+export const rawToString = (data: RawData): string => {
+    if (Array.isArray(data)) return Buffer.concat(data).toString('utf8');
+    if (data instanceof ArrayBuffer) return Buffer.from(data).toString('utf8');
+    return data.toString('utf8');
+};
+
+/**
+ * Decodes an incoming frame into a protocol envelope
+ * @throws ProtocolError when the frame is binary, not JSON or not an `{ event, data }` object
+ */
+export function decodeEvent(data: RawData, isBinary: boolean): ProtocolEnvelope {
+    if (isBinary) throw new ProtocolError('MALFORMED_FRAME', 'Binary frames are not supported by this protocol');
+
+    let envelope: unknown;
+    try {
+        envelope = JSON.parse(rawToString(data));
+    } catch {
+        throw new ProtocolError('MALFORMED_FRAME', 'Frame is not valid JSON');
+    }
+
+    if (!envelope || typeof envelope !== 'object' || Array.isArray(envelope)
+        || typeof (envelope as ProtocolEnvelope).event !== 'string' || !(envelope as ProtocolEnvelope).event) {
+        throw new ProtocolError('MALFORMED_FRAME', 'Frame must be an object with a string "event"');
+    }
+
+    return {event: (envelope as ProtocolEnvelope).event, data: (envelope as ProtocolEnvelope).data};
+}
+
+/**
+ * Runs a validator and returns the (possibly transformed) payload
+ * @throws ProtocolError when the payload is rejected
+ */
+export function validatePayload<T>(event: string, validator: PayloadValidator<T>, payload: unknown): T {
+    const invalid = (reason?: string) =>
+        new ProtocolError('INVALID_PAYLOAD', `Invalid payload for "${event}"${reason ? `: ${reason}` : ''}`, event);
+
+    if (typeof validator === 'function') {
+        if (!validator(payload)) throw invalid();
+        return payload as T;
+    }
+
+    if ('~standard' in validator) {
+        const result = validator['~standard'].validate(payload);
+        if (result instanceof Promise) throw invalid('async validators are not supported');
+        if ((result as { issues?: unknown }).issues) {
+            throw invalid((result as { issues: ReadonlyArray<{ message: string }> }).issues.map((issue) => issue.message).join(', '));
+        }
+        return (result as { value: T }).value;
+    }
+
+    try {
+        return validator.parse(payload);
+    } catch (error) {
+        throw invalid(error instanceof Error ? error.message : undefined);
+    }
+}
+
+/**
+ * Decodes and validates a frame against the protocol config
+ * @throws ProtocolError
+ */
+export function parseEvent<TEvents extends ProtocolEvents>(config: ProtocolConfig<TEvents>, data: RawData, isBinary: boolean): ProtocolEnvelope<keyof TEvents & string> {
+    const envelope = decodeEvent(data, isBinary);
+    if (!config.validators) return envelope as ProtocolEnvelope<keyof TEvents & string>;
+
+    if (!Object.hasOwn(config.validators, envelope.event)) {
+        throw new ProtocolError('UNKNOWN_EVENT', `Unknown event "${envelope.event}"`, envelope.event);
+    }
+
+    const validator = config.validators[envelope.event] as PayloadValidator<unknown> | undefined;
+    return {
+        event: envelope.event,
+        data: validator ? validatePayload(envelope.event, validator, envelope.data) : envelope.data
+    };
+}
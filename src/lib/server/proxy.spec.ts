@@ -0,0 +1,35 @@
+import type {IncomingMessage} from 'node:http';
+import {describe, expect, it} from 'vitest';
+import {forwardedFor, resolveClientAddress} from './proxy.js';
+
+const request = (remoteAddress: string, headers: Record<string, string> = {}) =>
+    ({socket: {remoteAddress}, headers}) as unknown as IncomingMessage;
+
+describe('proxy', () => {
+    it('parses Forwarded and X-Forwarded-For headers', () => {
+        expect(forwardedFor(request('10.0.0.1', {'x-forwarded-for': '203.0.113.7, 10.0.0.2'}))).toEqual(['203.0.113.7', '10.0.0.2']);
+        expect(forwardedFor(request('10.0.0.1', {
+            forwarded: 'for=192.0.2.43:4711;proto=https, for="[2001:db8:cafe::17]:4711", by=10.0.0.2;for=198.51.100.17',
+            'x-forwarded-for': 'ignored'
+        }))).toEqual(['192.0.2.43', '2001:db8:cafe::17', '198.51.100.17']);
+        expect(forwardedFor(request('10.0.0.1'))).toEqual([]);
+    });
+
+    it('ignores forwarding headers unless proxies are trusted', () => {
+        const req = request('::ffff:10.0.0.1', {'x-forwarded-for': '203.0.113.7'});
+
+        expect(resolveClientAddress(req)).toBe('10.0.0.1');
+        expect(resolveClientAddress(req, true)).toBe('203.0.113.7');
+    });
+
+    it('stops at the first untrusted hop', () => {
+        // A client can prepend anything, only the addresses added by trusted proxies count
+        const req = request('10.0.0.1', {'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2'});
+
+        expect(resolveClientAddress(req, 1)).toBe('10.0.0.2');
+        expect(resolveClientAddress(req, 2)).toBe('203.0.113.7');
+        expect(resolveClientAddress(req, ['10.0.0.1', '10.0.0.2'])).toBe('203.0.113.7');
+        expect(resolveClientAddress(req, (address) => address.startsWith('10.'))).toBe('203.0.113.7');
+        expect(resolveClientAddress(req, 10)).toBe('1.1.1.1');
+    });
+});
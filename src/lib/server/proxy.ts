@@ -0,0 +1,63 @@
+import type {IncomingMessage} from 'node:http';
+import {normalizeAddress} from "./keys.js";
+
+/**
+ * Which proxies in front of the server to trust for the client address: none (`false`, default), all (`true`), the
+ * number of proxy hops, the proxy addresses, or a predicate over each address starting at the closest hop (0)
+ */
+export type TrustProxy = boolean | number | string[] | ((address: string, hop: number) => boolean);
+
+// Strips quotes, IPv6 brackets and ports from a `Forwarded: for=` value or an `X-Forwarded-For` entry
+function parseNode(value: string): string {
+    let node = value.trim().replace(/^"|"$/g, '');
+    if (node.startsWith('[')) return node.slice(1, node.indexOf(']'));
+    // A single colon is an IPv4 address with a port, more are an unbracketed IPv6 address
+    if (node.indexOf(':') !== -1 && node.indexOf(':') === node.lastIndexOf(':')) node = node.slice(0, node.indexOf(':'));
+    return node;
+}
+
+const header = (req: IncomingMessage, name: string) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value.join(',') : value;
+};
+
+/**
+ * Returns the addresses the request was forwarded for, client first, from the `Forwarded` header or else
+ * `X-Forwarded-For`
+ * @param req
+ */
+export function forwardedFor(req: IncomingMessage): string[] {
+    const forwarded = header(req, 'forwarded');
+    if (forwarded) {
+        const addresses: string[] = [];
+        for (const element of forwarded.split(',')) {
+            const pair = element.split(';').map((part) => part.trim()).find((part) => part.toLowerCase().startsWith('for='));
+            if (pair) addresses.push(parseNode(pair.slice(4)));
+        }
+        return addresses;
+    }
+    const xff = header(req, 'x-forwarded-for');
+    return xff ? xff.split(',').map(parseNode).filter((address) => address.length > 0) : [];
+}
+
+/**
+ * Resolves the address of the client behind the trusted proxies: walks from the socket address towards the client
+ * and stops at the first address that isn't a trusted proxy
+ * @param req
+ * @param trust
+ */
+export function resolveClientAddress(req: IncomingMessage, trust: TrustProxy = false): string | undefined {
+    const remote = req.socket.remoteAddress === undefined ? undefined : normalizeAddress(req.socket.remoteAddress);
+    if (trust === false || remote === undefined) return remote;
+    const chain = [...forwardedFor(req).map(normalizeAddress), remote];
+    const trusted = typeof trust === 'function' ? trust
+        : typeof trust === 'number' ? (_address: string, hop: number) => hop < trust
+            : Array.isArray(trust) ? (address: string) => trust.map(normalizeAddress).includes(address)
+                : () => true;
+
+    for (let hop = 0; hop < chain.length - 1; hop++) {
+        const address = chain[chain.length - 1 - hop];
+        if (!trusted(address, hop)) return address;
+    }
+    return chain[0];
+}
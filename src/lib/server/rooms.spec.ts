@@ -0,0 +1,44 @@
+import {describe, expect, it} from 'vitest';
+import {RoomRegistry} from './rooms.js';
+
+const socket = (ref: string) => ({ref});
+
+describe('RoomRegistry', () => {
+    it('tracks membership in both directions', () => {
+        const registry = new RoomRegistry<{ ref: string }>();
+        const a = socket('a');
+        const b = socket('b');
+
+        expect(registry.join(a, 'lobby')).toBe(true);
+        expect(registry.join(a, 'lobby')).toBe(false);
+        registry.join(b, 'lobby');
+        registry.join(a, 'vip');
+
+        expect(registry.members('lobby')).toEqual([a, b]);
+        expect(registry.roomsOf('a')).toEqual(['lobby', 'vip']);
+        expect(registry.has('vip', 'b')).toBe(false);
+        expect(registry.counts()).toEqual({lobby: 2, vip: 1});
+    });
+
+    it('deduplicates members across rooms', () => {
+        const registry = new RoomRegistry<{ ref: string }>();
+        const a = socket('a');
+        registry.join(a, 'one');
+        registry.join(a, 'two');
+        registry.join(socket('b'), 'two');
+
+        expect(registry.members('one', 'two').map((member) => member.ref)).toEqual(['a', 'b']);
+    });
+
+    it('drops empty rooms when the last member leaves', () => {
+        const registry = new RoomRegistry<{ ref: string }>();
+        const a = socket('a');
+        registry.join(a, 'one');
+        registry.join(a, 'two');
+
+        expect(registry.leaveAll(a)).toEqual(['one', 'two']);
+        expect(registry.names()).toEqual([]);
+        expect(registry.roomsOf('a')).toEqual([]);
+        expect(registry.leave(a, 'one')).toBe(false);
+    });
+});
@@ -0,0 +1,97 @@
+type RoomMember = { readonly ref: string };
+
+/**
+ * Indexes sockets by room name (and rooms by socket ref), so fan-out to a room only touches its members
+ */
+export class RoomRegistry<TSocket extends RoomMember> {
+    private rooms = new Map<string, Map<string, TSocket>>();
+    private memberships = new Map<string, Set<string>>();
+
+    /**
+     * Adds the socket to a room, returns false when it already was a member
+     */
+    join(socket: TSocket, room: string): boolean {
+        let members = this.rooms.get(room);
+        if (!members) {
+            members = new Map();
+            this.rooms.set(room, members);
+        }
+        if (members.has(socket.ref)) return false;
+        members.set(socket.ref, socket);
+
+        let rooms = this.memberships.get(socket.ref);
+        if (!rooms) {
+            rooms = new Set();
+            this.memberships.set(socket.ref, rooms);
+        }
+        rooms.add(room);
+        return true;
+    }
+
+    /**
+     * Removes the socket from a room, returns false when it wasn't a member
+     */
+    leave(socket: TSocket, room: string): boolean {
+        const members = this.rooms.get(room);
+        if (!members?.delete(socket.ref)) return false;
+        if (members.size === 0) this.rooms.delete(room);
+
+        const rooms = this.memberships.get(socket.ref);
+        rooms?.delete(room);
+        if (rooms?.size === 0) this.memberships.delete(socket.ref);
+        return true;
+    }
+
+    /**
+     * Removes the socket from every room it joined, returns the rooms it left
+     */
+    leaveAll(socket: TSocket): string[] {
+        const rooms = Array.from(this.memberships.get(socket.ref) ?? []);
+        for (const room of rooms) this.leave(socket, room);
+        return rooms;
+    }
+
+    has(room: string, ref?: string): boolean {
+        const members = this.rooms.get(room);
+        return ref === undefined ? !!members : !!members?.has(ref);
+    }
+
+    /**
+     * Returns the members of one or more rooms, each socket at most once
+     */
+    members(...rooms: string[]): TSocket[] {
+        if (rooms.length === 1) return Array.from(this.rooms.get(rooms[0])?.values() ?? []);
+
+        const members = new Map<string, TSocket>();
+        for (const room of rooms) {
+            for (const [ref, socket] of this.rooms.get(room) ?? []) members.set(ref, socket);
+        }
+        return Array.from(members.values());
+    }
+
+    size(room: string): number {
+        return this.rooms.get(room)?.size ?? 0;
+    }
+
+    roomsOf(ref: string): string[] {
+        return Array.from(this.memberships.get(ref) ?? []);
+    }
+
+    names(): string[] {
+        return Array.from(this.rooms.keys());
+    }
+
+    /**
+     * Returns the member count per room
+     */
+    counts(): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const [room, members] of this.rooms) counts[room] = members.size;
+        return counts;
+    }
+
+    clear() {
+        this.rooms.clear();
+        this.memberships.clear();
+    }
+}
@@ -0,0 +1,63 @@
+import {describe, expect, it} from 'vitest';
+import {compareRoutes, matchRoute, parseRoute, resolveRoute, RouteTable} from './routes.js';
+
+describe('route patterns', () => {
+    it('matches params, optional params and rest params', () => {
+        expect(matchRoute(parseRoute('/rooms/[id]'), '/rooms/42')).toEqual({id: '42'});
+        expect(matchRoute(parseRoute('/rooms/[id]'), '/rooms/42/extra')).toBeUndefined();
+        expect(matchRoute(parseRoute('/files/[...path]'), '/files/a/b/c.txt')).toEqual({path: 'a/b/c.txt'});
+        expect(matchRoute(parseRoute('/files/[...path]'), '/files')).toEqual({path: ''});
+        expect(matchRoute(parseRoute('/docs/[[lang]]/intro'), '/docs/intro')).toEqual({});
+        expect(matchRoute(parseRoute('/docs/[[lang]]/intro'), '/docs/nl/intro')).toEqual({lang: 'nl'});
+        expect(matchRoute(parseRoute('/v[major].[minor]'), '/v1.2')).toEqual({major: '1', minor: '2'});
+    });
+
+    it('decodes matched params', () => {
+        expect(matchRoute(parseRoute('/rooms/[id]'), '/rooms/hello%20world')).toEqual({id: 'hello world'});
+        expect(matchRoute(parseRoute('/rooms/[id]'), '/rooms/%E0%A4%A')).toBeUndefined();
+    });
+
+    it('rejects malformed patterns', () => {
+        expect(() => parseRoute('/rooms/[id')).toThrow();
+        expect(() => parseRoute('/[a]/[a]')).toThrow();
+        expect(() => parseRoute('/files/x-[...path]')).toThrow();
+    });
+
+    it('orders literal segments before params, optionals and rest', () => {
+        const patterns = ['/[...rest]', '/rooms/[[id]]', '/rooms/[id]', '/rooms/lobby', '/rooms/room-[id]'];
+        const sorted = patterns.map(parseRoute).sort(compareRoutes).map((route) => route.pattern);
+
+        expect(sorted).toEqual(['/rooms/lobby', '/rooms/room-[id]', '/rooms/[id]', '/rooms/[[id]]', '/[...rest]']);
+    });
+
+    it('resolves pathnames with exact registrations winning over patterns', () => {
+        const table = new RouteTable<string>();
+        table.set('/[...rest]', 'catch-all');
+        table.set('/rooms/[id]', 'room');
+        table.set('/rooms/lobby', 'lobby');
+
+        expect(table.match('/rooms/lobby')).toEqual({pattern: '/rooms/lobby', value: 'lobby', params: {}});
+        expect(table.match('/rooms/42')).toEqual({pattern: '/rooms/[id]', value: 'room', params: {id: '42'}});
+        expect(table.match('/other/path')).toEqual({pattern: '/[...rest]', value: 'catch-all', params: {rest: 'other/path'}});
+
+        table.delete('/[...rest]');
+        expect(table.match('/other/path')).toBeUndefined();
+    });
+
+    it('matches pathnames spelling out a pattern against its params', () => {
+        const table = new RouteTable<string>();
+        table.set('/rooms/[id]', 'room');
+        table.set('/files/[...path]/raw', 'raw');
+
+        expect(table.match('/rooms/[id]')).toEqual({pattern: '/rooms/[id]', value: 'room', params: {id: '[id]'}});
+        expect(table.match('/files/[...path]/raw')).toEqual({pattern: '/files/[...path]/raw', value: 'raw', params: {path: '[...path]'}});
+        expect(table.match('/rooms/[[id]]/more')).toBeUndefined();
+    });
+
+    it('fills patterns back into pathnames', () => {
+        expect(resolveRoute('/rooms/[id]', {id: 'a b'})).toBe('/rooms/a%20b');
+        expect(resolveRoute('/files/[...path]', {path: 'a/b'})).toBe('/files/a/b');
+        expect(resolveRoute('/docs/[[lang]]/intro')).toBe('/docs/intro');
+        expect(() => resolveRoute('/rooms/[id]')).toThrow();
+    });
+});
@@ -0,0 +1,243 @@
+// SvelteKit-style route patterns: `/rooms/[id]`, `/files/[...path]`, `/docs/[[lang]]`
+type RoutePart =
+    | { type: 'static'; value: string }
+    | { type: 'param'; name: string }
+    | { type: 'optional'; name: string }
+    | { type: 'rest'; name: string };
+
+type RouteSegment = RoutePart[];
+
+export type ParsedRoute = {
+    pattern: string;
+    params: string[];
+    rest: string[];
+    regex: RegExp;
+    dynamic: boolean;
+    segments: RouteSegment[];
+};
+
+export type RouteMatch<T> = {
+    pattern: string;
+    value: T;
+    params: Record<string, string>;
+};
+
+const PARAM_PATTERN = /\[(\[)?(\.\.\.)?(\w+?)\]?\]/g;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function parseSegment(segment: string, pattern: string): RouteSegment {
+    const parts: RouteSegment = [];
+    let last = 0;
+
+    for (const match of segment.matchAll(PARAM_PATTERN)) {
+        const [raw, optional, rest, name] = match;
+        if (match.index > last) parts.push({type: 'static', value: segment.slice(last, match.index)});
+
+        if (optional && rest) throw new Error(`Invalid route ${pattern}: optional rest parameters are not supported`);
+        if (optional && !raw.endsWith(']]')) throw new Error(`Invalid route ${pattern}: unbalanced brackets in "${segment}"`);
+
+        parts.push(rest ? {type: 'rest', name} : optional ? {type: 'optional', name} : {type: 'param', name});
+        last = match.index + raw.length;
+    }
+
+    if (last < segment.length) parts.push({type: 'static', value: segment.slice(last)});
+
+    if (parts.length > 1 && parts.some((part) => part.type === 'rest' || part.type === 'optional')) {
+        throw new Error(`Invalid route ${pattern}: rest and optional parameters must fill a whole segment`);
+    }
+    if (parts.some((part) => part.type === 'static' && /[[\]]/.test(part.value))) {
+        throw new Error(`Invalid route ${pattern}: unbalanced brackets in "${segment}"`);
+    }
+
+    return parts;
+}
+
+/**
+ * Parses a SvelteKit-style route pattern into a matcher
+ * @param pattern e.g. `/rooms/[id]` or `/files/[...path]`
+ */
+export function parseRoute(pattern: string): ParsedRoute {
+    const segments = pattern.split('/').filter(Boolean).map((segment) => parseSegment(segment, pattern));
+    const params: string[] = [];
+    const rest: string[] = [];
+    let source = '';
+
+    for (const segment of segments) {
+        const [first] = segment;
+        if (first.type === 'rest') {
+            params.push(first.name);
+            rest.push(first.name);
+            source += '(?:/(.*))?';
+            continue;
+        }
+        if (first.type === 'optional') {
+            params.push(first.name);
+            source += '(?:/([^/]+))?';
+            continue;
+        }
+
+        source += '/';
+        for (const part of segment) {
+            if (part.type === 'static') {
+                source += escapeRegex(part.value);
+            } else {
+                params.push(part.name);
+                source += '([^/]+?)';
+            }
+        }
+    }
+
+    if (new Set(params).size !== params.length) {
+        throw new Error(`Invalid route ${pattern}: duplicate parameter names`);
+    }
+
+    return {
+        pattern,
+        params,
+        rest,
+        regex: new RegExp(`^${source || '/'}/?$`),
+        dynamic: params.length > 0,
+        segments
+    };
+}
+
+/**
+ * Matches a pathname against a parsed route, returning its decoded params
+ */
+export function matchRoute(route: ParsedRoute, pathname: string): Record<string, string> | undefined {
+    const match = route.regex.exec(pathname);
+    if (!match) return undefined;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < route.params.length; i++) {
+        const name = route.params[i];
+        const value = match[i + 1] ?? (route.rest.includes(name) ? '' : undefined);
+        if (value === undefined) continue;
+        try {
+            params[name] = decodeURIComponent(value);
+        } catch {
+            return undefined;
+        }
+    }
+    return params;
+}
+
+// Lower is more specific: literal segments beat params, params beat optionals, optionals beat rest
+const segmentRank = (segment: RouteSegment | undefined): number => {
+    if (!segment) return 5;
+    if (segment.every((part) => part.type === 'static')) return 0;
+    if (segment.some((part) => part.type === 'static')) return 1;
+    switch (segment[0].type) {
+        case 'param':
+            return 2;
+        case 'optional':
+            return 3;
+        default:
+            return 4;
+    }
+};
+
+/**
+ * Orders routes from most to least specific, comparing segment by segment. Ties are broken alphabetically so the
+ * outcome never depends on registration order.
+ */
+export function compareRoutes(a: ParsedRoute, b: ParsedRoute): number {
+    const length = Math.max(a.segments.length, b.segments.length);
+    for (let i = 0; i < length; i++) {
+        const diff = segmentRank(a.segments[i]) - segmentRank(b.segments[i]);
+        if (diff !== 0) return diff;
+    }
+    return a.pattern < b.pattern ? -1 : a.pattern > b.pattern ? 1 : 0;
+}
+
+/**
+ * Map of route patterns that resolves pathnames with literal-first precedence
+ */
+export class RouteTable<T> {
+    private routes = new Map<string, T>();
+    private dynamic: ParsedRoute[] = [];
+    // Patterns without params, the only ones a pathname can equal
+    private literals = new Set<string>();
+
+    get size() {
+        return this.routes.size;
+    }
+
+    has(pattern: string) {
+        return this.routes.has(pattern);
+    }
+
+    get(pattern: string) {
+        return this.routes.get(pattern);
+    }
+
+    set(pattern: string, value: T) {
+        const route = parseRoute(pattern);
+        if (route.dynamic && !this.routes.has(pattern)) {
+            this.dynamic.push(route);
+            this.dynamic.sort(compareRoutes);
+        }
+        if (!route.dynamic) this.literals.add(pattern);
+        this.routes.set(pattern, value);
+        return this;
+    }
+
+    delete(pattern: string) {
+        this.dynamic = this.dynamic.filter((route) => route.pattern !== pattern);
+        this.literals.delete(pattern);
+        return this.routes.delete(pattern);
+    }
+
+    clear() {
+        this.routes.clear();
+        this.dynamic = [];
+        this.literals.clear();
+    }
+
+    values() {
+        return this.routes.values();
+    }
+
+    entries() {
+        return this.routes.entries();
+    }
+
+    /**
+     * Resolves a request pathname to a registered route; exact (literal) registrations always win
+     */
+    match(pathname: string): RouteMatch<T> | undefined {
+        // A pathname spelling out a pattern, like `/rooms/[id]`, is matched against it like any other
+        if (this.literals.has(pathname)) return {pattern: pathname, value: this.routes.get(pathname)!, params: {}};
+
+        for (const route of this.dynamic) {
+            const params = matchRoute(route, pathname);
+            if (params) return {pattern: route.pattern, value: this.routes.get(route.pattern)!, params};
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Fills the params of a route pattern, producing a concrete pathname
+ */
+export function resolveRoute(pattern: string, params: Record<string, string> = {}): string {
+    const route = parseRoute(pattern);
+    const pathname = route.segments
+        .map((segment) => segment
+            .map((part) => {
+                if (part.type === 'static') return part.value;
+                const value = params[part.name];
+                if (value === undefined || value === '') {
+                    if (part.type === 'param') throw new Error(`Missing route parameter "${part.name}" for ${pattern}`);
+                    return '';
+                }
+                return part.type === 'rest'
+                    ? value.split('/').map(encodeURIComponent).join('/')
+                    : encodeURIComponent(value);
+            })
+            .join(''))
+        .filter(Boolean)
+        .join('/');
+    return `/${pathname}`;
+}
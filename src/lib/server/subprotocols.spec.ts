@@ -0,0 +1,16 @@
+import {describe, expect, it} from 'vitest';
+import {negotiateProtocol, parseProtocols} from './subprotocols.js';
+
+describe('subprotocols', () => {
+    it('parses the offered protocols', () => {
+        expect(parseProtocols('chat.v2, chat.v1')).toEqual(['chat.v2', 'chat.v1']);
+        expect(parseProtocols(['a', 'b , c'])).toEqual(['a', 'b', 'c']);
+        expect(parseProtocols(undefined)).toEqual([]);
+    });
+
+    it('prefers the server priority order', () => {
+        expect(negotiateProtocol(['chat.v1', 'chat.v2'], ['chat.v2', 'chat.v1'])).toBe('chat.v2');
+        expect(negotiateProtocol(['chat.v1'], ['chat.v2', 'chat.v1'])).toBe('chat.v1');
+        expect(negotiateProtocol(['other'], ['chat.v2'])).toBeUndefined();
+    });
+});
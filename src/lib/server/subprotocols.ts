@@ -0,0 +1,19 @@
+/**
+ * Parses a `Sec-WebSocket-Protocol` header into the offered subprotocols, in client order
+ * @param header
+ */
+export function parseProtocols(header: string | string[] | undefined): string[] {
+    if (header === undefined) return [];
+    const value = Array.isArray(header) ? header.join(',') : header;
+    return value.split(',').map((protocol) => protocol.trim()).filter((protocol) => protocol.length > 0);
+}
+
+/**
+ * Picks the first supported subprotocol (in server priority order) that the client offered
+ * @param offered
+ * @param supported
+ */
+export function negotiateProtocol(offered: Iterable<string>, supported: readonly string[]): string | undefined {
+    const offers = new Set(offered);
+    return supported.find((protocol) => offers.has(protocol));
+}
@@ -21,6 +21,12 @@ type _websocketsUseControllerIsEndpointController = Expect<Equal<UseController,
 type _webSocketsUseSocketIsReferenced = Expect<Equal<WebSocketsUseWebSocket, ReferencedWebSocket>>;
 type _webSocketsUseControllerIsEndpointController = Expect<Equal<WebSocketsUseController, WebSocketEndpointController>>;
 
+type ChatController = WebSocketEndpointController<{ chat: { text: string } }>;
+const _typedMessageListener = (controller: ChatController) => controller.on('message:chat', (_ws, payload) => {
+    type _payloadIsTyped = Expect<Equal<typeof payload, { text: string }>>;
+});
+type _typedEmitEvent = Expect<Equal<Parameters<ReferencedWebSocket<{ chat: { text: string } }>['emitEvent']>[1], { text: string }>>;
+
 describe('server export types', () => {
     it('exposes websockets.use with a ReferencedWebSocket connection handler', () => {
         expect(websockets.use).toBe(WebSockets.use);
@@ -0,0 +1,783 @@
+import {createServer, type Server} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {WebSocket} from 'ws';
+import {RpcPeer} from '../shared/rpc.js';
+import {createPresence} from '../client/presence.svelte.js';
+import {
+    MemoryConnectionKeyStore,
+    prepareMessage,
+    WebSockets,
+    type ConnectionKeyClaims,
+    type ReferencedWebSocket
+} from './index.js';
+
+let server: Server;
+let base: string;
+
+const connect = (path: string, options?: { origin?: string, protocols?: string[], autoPong?: boolean, headers?: Record<string, string> }) => new Promise<WebSocket>((resolve, reject) => {
+    const socket = new WebSocket(`${base}${path}`, options?.protocols ?? [], options);
+    socket.once('open', () => resolve(socket));
+    socket.once('error', reject);
+});
+
+const nextMessage = (socket: WebSocket) =>
+    new Promise<unknown>((resolve) => socket.once('message', (data) => resolve(JSON.parse(data.toString()))));
+
+const nextConnection = (controller: ReturnType<typeof WebSockets.continuous>) =>
+    new Promise<ReferencedWebSocket>((resolve) => controller.once('connect', resolve));
+
+beforeEach(async () => {
+    server = createServer();
+    server.on('upgrade', (req, socket, head) => WebSockets.upgrade(req, socket, head));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+    await WebSockets.clear();
+    WebSockets.useCompression(false);
+    WebSockets.useLogger(undefined);
+    WebSockets.useInstrumentation(undefined);
+    await new Promise((resolve) => server.close(resolve));
+});
+
+describe('WebSockets.upgrade', () => {
+    it('routes parameterized paths and merges route and query params', async () => {
+        const rooms = WebSockets.continuous('/rooms/[id]', {useConnectionKeys: false});
+        const connected = nextConnection(rooms);
+
+        const client = await connect('/rooms/42?id=ignored&nick=ada');
+        const socket = await connected;
+
+        expect(socket.params).toEqual({id: '42', nick: 'ada'});
+        client.close();
+    });
+
+    it('prefers literal registrations over patterns', async () => {
+        const rooms = WebSockets.continuous('/rooms/[id]', {useConnectionKeys: false});
+        const lobby = WebSockets.continuous('/rooms/lobby', {useConnectionKeys: false});
+        let roomConnections = 0;
+        rooms.on('connect', () => roomConnections++);
+        const connected = nextConnection(lobby);
+
+        const client = await connect('/rooms/lobby');
+        const socket = await connected;
+
+        expect(socket.params).toEqual({});
+        expect(roomConnections).toBe(0);
+        client.close();
+    });
+
+    it('registers route modules and swaps their handlers when registered again', async () => {
+        const closed = vi.fn();
+        const first = WebSockets.route('/echo/[room]', {
+            config: {useConnectionKeys: false},
+            message: (socket, data) => socket.send(JSON.stringify({room: socket.params?.room, echo: data.toString()})),
+            close: closed
+        });
+        const failing = WebSockets.route('/failing', {config: {useConnectionKeys: false}, connect: () => Promise.reject(new Error('boom'))});
+        const failed = new Promise<Error>((resolve) => failing.once('error', resolve));
+
+        const client = await connect('/echo/lobby');
+        client.send('hi');
+        expect(await nextMessage(client)).toEqual({room: 'lobby', echo: 'hi'});
+        client.close(1000, 'bye');
+        await vi.waitFor(() => expect(closed).toHaveBeenCalledWith(expect.anything(), 1000, 'bye', first));
+
+        // A new version of the file keeps the endpoint and its sockets
+        const live = await connect('/echo/lobby');
+        const second = WebSockets.route('/echo/[room]', {
+            config: {useConnectionKeys: false},
+            message: (socket) => socket.send(JSON.stringify('v2'))
+        });
+        expect(second).toBe(first);
+
+        live.send('hi');
+        expect(await nextMessage(live)).toBe('v2');
+        live.close();
+        await new Promise((resolve) => live.once('close', resolve));
+        expect(closed).toHaveBeenCalledOnce();
+
+        // A throwing handler becomes an error event, the socket stays open
+        const failingClient = await connect('/failing');
+        expect((await failed).message).toBe('boom');
+        expect(failingClient.readyState).toBe(WebSocket.OPEN);
+        failingClient.close();
+    });
+
+    it('replaces the handlers of a module evaluated again and destroys endpoints it no longer registers', async () => {
+        const evaluate = (version: string, routes: string[]) => {
+            const done = WebSockets.hot('/src/lib/server/chat.ts');
+            for (const route of routes) {
+                WebSockets.continuous(route, {useConnectionKeys: false, authHandler: () => version !== 'locked'})
+                    .on('message', (socket) => socket.send(JSON.stringify(version)));
+            }
+            done();
+        };
+        evaluate('v1', ['/chat', '/news']);
+        const chat = WebSockets.continuous('/chat');
+        const news = WebSockets.continuous('/news');
+        const destroyed = new Promise<void>((resolve) => news.once('destroy', resolve));
+
+        const client = await connect('/chat');
+        evaluate('v2', ['/chat']);
+        await destroyed;
+
+        expect(WebSockets.continuous('/chat')).toBe(chat);
+        expect(chat.listenerCount('message')).toBe(1);
+        client.send('hi');
+        expect(await nextMessage(client)).toBe('v2');
+
+        // Function options are swapped too
+        evaluate('locked', ['/chat']);
+        const rejected = await connect('/chat');
+        expect(await new Promise((resolve) => rejected.once('close', resolve))).toBe(1008);
+        expect(client.readyState).toBe(WebSocket.OPEN);
+        client.close();
+    });
+
+    it('closes all sockets on clear and resolves once they closed', async () => {
+        WebSockets.continuous('/chat', {useConnectionKeys: false});
+        const client = await connect('/chat');
+        const closed = new Promise<[number, string]>((resolve) => client.once('close', (code, reason) => resolve([code, reason.toString()])));
+
+        await WebSockets.clear({reason: 'Deploying'});
+
+        expect(await closed).toEqual([1001, 'Deploying']);
+        await expect(connect('/chat')).rejects.toThrow();
+    });
+
+    it('keeps endpoints registered while clear() still disposes their predecessors', async () => {
+        WebSockets.continuous('/chat', {useConnectionKeys: false});
+        const old = await connect('/chat');
+        const cleared = WebSockets.clear();
+        const fresh = WebSockets.continuous('/chat', {useConnectionKeys: false});
+        old.close();
+        await cleared;
+
+        const connected = nextConnection(fresh);
+        const client = await connect('/chat');
+        expect((await connected).endpoint).toBe('/chat');
+        client.close();
+    });
+
+    it('builds connection urls for parameterized endpoints', () => {
+        const files = WebSockets.continuous('/files/[...path]');
+
+        expect(files.url({path: 'a/b.txt'})).toMatch(/^\/files\/a\/b\.txt\?key=[\w-]+$/);
+        expect(() => WebSockets.continuous('/rooms/[id]').new).toThrow();
+    });
+
+    it('dispatches typed protocol events and replies to invalid frames', async () => {
+        const chat = WebSockets.continuous<{ chat: { text: string } }>('/chat', {
+            useConnectionKeys: false,
+            protocol: {
+                validators: {
+                    chat: (payload): payload is { text: string } =>
+                        typeof (payload as { text?: unknown })?.text === 'string'
+                }
+            }
+        });
+        const received = new Promise<string>((resolve) => chat.on('message:chat', (_ws, payload) => resolve(payload.text)));
+        chat.on('message:chat', (ws, payload) => ws.emitEvent('chat', {text: payload.text.toUpperCase()}));
+
+        const client = await connect('/chat');
+
+        client.send('{oops');
+        expect(await nextMessage(client)).toMatchObject({event: 'error', data: {code: 'MALFORMED_FRAME'}});
+
+        client.send(JSON.stringify({event: 'chat', data: {text: 42}}));
+        expect(await nextMessage(client)).toMatchObject({event: 'error', data: {code: 'INVALID_PAYLOAD', event: 'chat'}});
+
+        client.send(JSON.stringify({event: 'chat', data: {text: 'hi'}}));
+        expect(await received).toBe('hi');
+        expect(await nextMessage(client)).toEqual({event: 'chat', data: {text: 'HI'}});
+        client.close();
+    });
+
+    it('populates metadata from key claims and enforces origin bindings', async () => {
+        const app = WebSockets.continuous('/app');
+        const connected = nextConnection(app);
+
+        const client = await connect(app.url(undefined, {subject: 'u1', metadata: {role: 'admin'}}));
+        const socket = await connected;
+
+        expect(socket.metadata).toEqual({role: 'admin', subject: 'u1'});
+        expect(socket.claims).toMatchObject({path: '/app', subject: 'u1'});
+        client.close();
+
+        const foreign = await connect(app.url(undefined, {origin: 'https://app.example'}));
+        const closed = new Promise<number>((resolve) => foreign.once('close', resolve));
+        expect(await closed).toBe(1008);
+    });
+
+    it('issues keys of asynchronous stores for single-connection endpoints', async () => {
+        const store = new MemoryConnectionKeyStore();
+        // Like a Redis store: every operation resolves later
+        const keyStore = {
+            issue: async (claims: ConnectionKeyClaims) => store.issue(claims),
+            consume: async (key: string, path: string) => store.consume(key, path)
+        };
+        const event = {url: new URL('http://localhost/once'), locals: {}};
+        const handled = new Promise<ReferencedWebSocket>((resolve) => {
+            expect(() => WebSockets.use('/sync', () => undefined, {keyStore})).toThrow(/useAsync/);
+            WebSockets.useAsync(event, resolve, {keyStore, claims: {subject: () => 'u1'}}).then((url) => connect(url));
+        });
+
+        const socket = await handled;
+        expect(socket.claims).toMatchObject({path: '/once', subject: 'u1'});
+        socket.close();
+    });
+
+    it('refuses sockets that close or fail while a slow key store redeems their key', async () => {
+        const store = new MemoryConnectionKeyStore();
+        const keyStore = {
+            issue: async (claims: ConnectionKeyClaims) => store.issue(claims),
+            consume: (key: string, path: string) => new Promise<ConnectionKeyClaims | undefined>((resolve) => setTimeout(() => resolve(store.consume(key, path)), 100))
+        };
+        const slow = WebSockets.continuous('/slow', {keyStore, maxPayload: 16});
+        const connected = vi.fn();
+        const errors: Error[] = [];
+        slow.on('connect', connected);
+        slow.on('error', (error) => errors.push(error));
+
+        const leaving = await connect(await slow.issueUrl());
+        leaving.close();
+        const oversized = await connect(await slow.issueUrl());
+        const closed = new Promise<number>((resolve) => oversized.once('close', resolve));
+        oversized.send('x'.repeat(64));
+
+        expect(await closed).toBe(1009);
+        await vi.waitFor(() => expect(WebSockets.metrics.rejections.get({endpoint: '/slow', reason: 'closed'})).toBe(2));
+        expect(connected).not.toHaveBeenCalled();
+        expect(errors).toEqual([expect.objectContaining({code: 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH'})]);
+        expect(slow.getConnectionsInfo().total).toBe(0);
+        expect(WebSockets.metrics.active.get({endpoint: '/slow'})).toBe(0);
+    });
+
+    it('only redeems keys on the concrete path they were issued for', async () => {
+        const rooms = WebSockets.continuous('/rooms/[id]');
+        const connected = nextConnection(rooms);
+
+        const other = await connect(rooms.url({id: '1'}).replace('/rooms/1', '/rooms/2'));
+        const closed = await new Promise<[number, string]>((resolve) => other.once('close', (code, reason) => resolve([code, reason.toString()])));
+        expect(closed).toEqual([1008, 'Connection key was issued for another path']);
+
+        const client = await connect(rooms.url({id: '1'}));
+        expect((await connected).params).toMatchObject({id: '1'});
+        client.close();
+    });
+
+    it('resolves the client address behind trusted proxies', async () => {
+        const feed = WebSockets.continuous('/proxied', {useConnectionKeys: false, trustProxy: 1, rateLimit: {max: 1, window: 60_000}});
+        const connected = nextConnection(feed);
+
+        const client = await connect('/proxied', {headers: {'x-forwarded-for': '203.0.113.7'}});
+        expect((await connected).clientAddress).toBe('203.0.113.7');
+        // Rate limited per forwarded client, not per proxy
+        const other = await connect('/proxied', {headers: {'x-forwarded-for': '203.0.113.8'}});
+        const repeated = await connect('/proxied', {headers: {'x-forwarded-for': '203.0.113.7'}});
+        const closed = await new Promise<number>((resolve) => repeated.once('close', resolve));
+
+        expect(closed).toBe(1013);
+        expect(other.readyState).toBe(WebSocket.OPEN);
+        client.close();
+        other.close();
+    });
+
+    it('runs the hook and hands its locals to authHandler and the socket', async () => {
+        const app = WebSockets.continuous('/app/[room]', {
+            useConnectionKeys: false,
+            hook: async ({event, resolve}) => {
+                const session = event.cookies.get('session');
+                if (!session) return new Response('Not signed in', {status: 401});
+                event.locals.user = {session, room: event.params.room};
+                return resolve(event);
+            },
+            authHandler: (_req, event) => event.locals.user?.session === 'ada'
+        });
+        const connected = nextConnection(app);
+
+        const client = await connect('/app/lobby', {headers: {cookie: 'session=ada'}});
+        expect((await connected).event?.locals.user).toEqual({session: 'ada', room: 'lobby'});
+
+        await expect(connect('/app/lobby')).rejects.toThrow('Unexpected server response: 401');
+        const rejected = await connect('/app/lobby', {headers: {cookie: 'session=eve'}});
+        expect(await new Promise((resolve) => rejected.once('close', resolve))).toBe(1008);
+        client.close();
+    });
+
+    it('counts, logs and traces connections, messages and rejections per endpoint', async () => {
+        const {metrics} = WebSockets;
+        metrics.reset();
+        const logger = {debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn()};
+        const upgradeEnd = vi.fn();
+        const messageEnd = vi.fn();
+        const hooks = {
+            upgrade: vi.fn(() => upgradeEnd),
+            message: vi.fn(() => messageEnd),
+            connect: vi.fn(),
+            disconnect: vi.fn(),
+            reject: vi.fn()
+        };
+        WebSockets.useLogger(logger);
+        WebSockets.useInstrumentation(hooks);
+        const chat = WebSockets.continuous('/chat/[room]', {useConnectionKeys: false, requiredParams: ['nick']});
+        chat.on('message', (socket, data) => socket.send(`echo ${data}`));
+        const disconnected = new Promise((resolve) => chat.once('disconnect', resolve));
+
+        const client = await connect('/chat/lobby?nick=ada');
+        client.send('hello');
+        await new Promise((resolve) => client.once('message', resolve));
+        client.close();
+        await disconnected;
+
+        await expect(connect('/chat/lobby', {origin: 'https://evil.example'})).rejects.toThrow(/403/);
+        const unnamed = await connect('/chat/lobby');
+        expect(await new Promise((resolve) => unnamed.once('close', resolve))).toBe(1008);
+
+        const endpoint = {endpoint: '/chat/[room]'};
+        expect(metrics.upgrades.get(endpoint)).toBe(3);
+        expect(metrics.connections.get(endpoint)).toBe(1);
+        expect(metrics.active.get(endpoint)).toBe(0);
+        expect(metrics.messagesReceived.get(endpoint)).toBe(1);
+        expect(metrics.bytesReceived.get(endpoint)).toBe(5);
+        expect(metrics.messagesSent.get(endpoint)).toBe(1);
+        expect(metrics.bytesSent.get(endpoint)).toBe(10);
+        expect(metrics.rejections.get({...endpoint, reason: 'origin'})).toBe(1);
+        expect(metrics.rejections.get({...endpoint, reason: 'missing_param'})).toBe(1);
+        expect(metrics.toPrometheus()).toContain('websocket_connection_duration_seconds_count{endpoint="/chat/[room]"} 1');
+
+        expect(hooks.upgrade).toHaveBeenCalledTimes(3);
+        expect(upgradeEnd.mock.calls.map(([error]) => error?.message)).toEqual([undefined, 'Origin not allowed', 'Missing required parameter: nick']);
+        expect(hooks.message).toHaveBeenCalledWith(expect.objectContaining({...endpoint, size: 5, binary: false}));
+        expect(messageEnd).toHaveBeenCalledWith(undefined);
+        expect(hooks.connect).toHaveBeenCalledOnce();
+        expect(hooks.disconnect).toHaveBeenCalledWith(expect.objectContaining({...endpoint, code: 1005}));
+        expect(hooks.reject.mock.calls.map(([info]) => info.reason)).toEqual(['origin', 'missing_param']);
+        expect(logger.info).toHaveBeenCalledWith('WebSocket rejected', expect.objectContaining({reason: 'origin'}));
+        expect(logger.debug).toHaveBeenCalledWith('WebSocket connected', expect.objectContaining(endpoint));
+    });
+
+    it('reports errors thrown by message listeners instead of crashing', async () => {
+        const messageEnd = vi.fn();
+        const logger = {debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn()};
+        WebSockets.useLogger(logger);
+        WebSockets.useInstrumentation({message: () => messageEnd});
+        const failing = WebSockets.continuous('/failing', {useConnectionKeys: false});
+        const failure = new Error('listener failed');
+        failing.on('message', (socket, data) => {
+            if (data.toString() === 'throw') throw failure;
+            socket.send('ok');
+        });
+
+        const client = await connect('/failing');
+        client.send('throw');
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith('WebSocket endpoint error', expect.objectContaining({error: failure})));
+        expect(messageEnd).toHaveBeenCalledWith(failure);
+
+        const reported = new Promise<[Error, ReferencedWebSocket?]>((resolve) => failing.once('error', (...args) => resolve(args)));
+        client.send('throw');
+        const [error, socket] = await reported;
+        expect(error).toBe(failure);
+        expect(socket?.readyState).toBe(WebSocket.OPEN);
+
+        client.send('again');
+        expect((await new Promise((resolve) => client.once('message', resolve)))!.toString()).toBe('ok');
+        client.close();
+    });
+
+    it('logs unhandled handler errors to the console by default', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const failure = new Error('handler failed');
+        WebSockets.route('/failing', {config: {useConnectionKeys: false}, message: () => {
+            throw failure;
+        }});
+
+        try {
+            const client = await connect('/failing');
+            client.send('hi');
+            await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('WebSocket endpoint error', expect.objectContaining({endpoint: '/failing', error: failure})));
+            client.close();
+        } finally {
+            consoleError.mockRestore();
+        }
+    });
+
+    it('inspects endpoints and runs admin actions on them', async () => {
+        const chat = WebSockets.continuous('/chat/[room]', {useConnectionKeys: false, authHandler: () => true});
+        WebSockets.raw('/raw', (_req, socket) => socket.end());
+        const connected = nextConnection(chat);
+        const client = await connect('/chat/lobby');
+        const socket = await connected;
+
+        const endpoints = WebSockets.inspect();
+        expect(endpoints.map(({path, type}) => ({path, type}))).toEqual([
+            {path: '/chat/[room]', type: 'continuous'},
+            {path: '/raw', type: 'raw'}
+        ]);
+        expect(endpoints[0]).toMatchObject({connections: 1, config: {useConnectionKeys: false, authHandler: '[function]'}});
+        expect(endpoints[0].sockets[0]).toMatchObject({ref: socket.ref, params: {room: 'lobby'}});
+        expect(WebSockets.find(socket.ref)).toEqual({endpoint: chat, socket});
+
+        const handler = WebSockets.inspectHandler({guard: (event) => event.request.headers.get('authorization') === 'Bearer admin'});
+        const post = (body: unknown) => handler({
+            url: new URL('http://localhost/admin'),
+            request: new Request('http://localhost/admin', {method: 'POST', headers: {authorization: 'Bearer admin'}, body: JSON.stringify(body)})
+        });
+
+        const received = new Promise((resolve) => client.once('message', (data) => resolve(data.toString())));
+        expect((await post({action: 'broadcast', path: '/chat/[room]', data: 'test'})).status).toBe(200);
+        expect(await received).toBe('test');
+
+        const closed = new Promise((resolve) => client.once('close', (code, reason) => resolve([code, reason.toString()])));
+        expect((await post({action: 'disconnect', ref: socket.ref, code: 4000, reason: 'Kicked'})).status).toBe(200);
+        expect(await closed).toEqual([4000, 'Kicked']);
+
+        expect((await post({action: 'drop', path: '/chat/[room]'})).status).toBe(200);
+        expect(WebSockets.inspect().map(({path}) => path)).toEqual(['/raw']);
+        expect((await handler({url: new URL('http://localhost/admin'), request: new Request('http://localhost/admin')})).status).toBe(403);
+    });
+
+    it('declines cross-origin upgrades with a 403', async () => {
+        const chat = WebSockets.continuous('/chat', {useConnectionKeys: false});
+        const rejected = new Promise<string>((resolve) => chat.once('originRejected', resolve));
+
+        await expect(connect('/chat', {origin: 'https://evil.example'})).rejects.toThrow(/403/);
+        expect(await rejected).toBe('https://evil.example');
+
+        const client = await connect('/chat', {origin: `http://${new URL(base).host}`});
+        client.close();
+    });
+
+    it('negotiates subprotocols and scopes handlers per protocol', async () => {
+        const chat = WebSockets.continuous('/chat', {useConnectionKeys: false, protocols: ['chat.v2', 'chat.v1']});
+        chat.forProtocol('chat.v1').on('message', (ws, data) => ws.send(`v1:${data}`));
+        chat.forProtocol('chat.v2').on('message', (ws, data) => ws.send(`v2:${data}`));
+        const reply = (socket: WebSocket) => new Promise<string>((resolve) => socket.once('message', (data) => resolve(data.toString())));
+
+        const legacy = await connect('/chat', {protocols: ['chat.v1']});
+        const current = await connect('/chat', {protocols: ['chat.v1', 'chat.v2']});
+        expect([legacy.protocol, current.protocol]).toEqual(['chat.v1', 'chat.v2']);
+
+        const replies = Promise.all([reply(legacy), reply(current)]);
+        legacy.send('hi');
+        current.send('hi');
+        expect(await replies).toEqual(['v1:hi', 'v2:hi']);
+
+        await expect(connect('/chat', {protocols: ['chat.v0']})).rejects.toThrow(/400/);
+        await expect(connect('/chat')).rejects.toThrow(/400/);
+        legacy.close();
+        current.close();
+    });
+
+    it('measures heartbeat round trips and terminates unresponsive sockets', async () => {
+        const live = WebSockets.continuous('/live', {useConnectionKeys: false, heartbeat: {interval: 20, timeout: 40}});
+        const disconnected = new Promise<[number, string]>((resolve) => live.on('disconnect', (_ws, code, reason) => resolve([code, reason])));
+
+        const responsive = await connect('/live');
+        await new Promise<void>((resolve) => responsive.once('ping', () => setTimeout(resolve, 10)));
+        expect(live.getConnectionsInfo().connections[0].latency).toEqual(expect.any(Number));
+        responsive.terminate();
+        await disconnected;
+
+        const zombie = await connect('/live', {autoPong: false});
+        const dropped = new Promise<[number, string]>((resolve) => live.on('disconnect', (_ws, code, reason) => resolve([code, reason])));
+        expect(await dropped).toEqual([1006, 'Heartbeat timeout']);
+        zombie.terminate();
+    });
+
+    it('applies the backpressure policy to slow consumers', async () => {
+        const feed = WebSockets.continuous('/feed', {useConnectionKeys: false, backpressure: {maxBufferedAmount: 1024, policy: 'wait'}});
+        const connected = nextConnection(feed);
+        const client = await connect('/feed');
+        const socket = await connected;
+        let buffered = 4096;
+        Object.defineProperty(socket, 'bufferedAmount', {get: () => buffered, configurable: true});
+        const actions: string[] = [];
+        feed.on('slowConsumer', (_ws, _bufferedAmount, action) => actions.push(action));
+        const received: string[] = [];
+        const done = new Promise<void>((resolve) => client.on('message', (data) => {
+            received.push(data.toString());
+            if (received.length === 3) resolve();
+        }));
+
+        feed.broadcast('a');
+        feed.broadcast('b');
+        buffered = 0;
+        // Held back messages go out in order once a write completes
+        socket.send('direct');
+        await done;
+
+        expect(received).toEqual(['direct', 'a', 'b']);
+        expect(actions).toEqual(['wait', 'wait']);
+
+        const strict = WebSockets.continuous('/strict-feed', {useConnectionKeys: false, backpressure: {maxBufferedAmount: 1024, policy: 'disconnect'}});
+        const strictConnected = nextConnection(strict);
+        const slow = await connect('/strict-feed');
+        const slowSocket = await strictConnected;
+        Object.defineProperty(slowSocket, 'bufferedAmount', {get: () => 4096, configurable: true});
+        const disconnected = new Promise<[number, string]>((resolve) => strict.on('disconnect', (_ws, code, reason) => resolve([code, reason])));
+
+        expect(strict.send(slowSocket.ref, 'too much')).toBe(false);
+        expect(await disconnected).toEqual([1013, 'Slow consumer']);
+        expect(strict.getConnectionsInfo().slowConsumers).toEqual({dropped: 0, disconnected: 1, waited: 0});
+        client.close();
+        slow.terminate();
+    });
+
+    it('drops messages for slow consumers and waits for them in broadcastAsync', async () => {
+        const feed = WebSockets.continuous('/feed', {useConnectionKeys: false, backpressure: {maxBufferedAmount: 1024, drainTimeout: 50}});
+        const connected = nextConnection(feed);
+        const client = await connect('/feed');
+        const socket = await connected;
+        Object.defineProperty(socket, 'bufferedAmount', {get: () => 4096, configurable: true});
+        const errors = new Promise<Error[]>((resolve) => feed.broadcast('dropped', {}, resolve));
+
+        expect(await errors).toEqual([expect.any(Error)]);
+        expect(feed.getConnectionsInfo().connections[0].droppedMessages).toBe(1);
+
+        await expect(feed.broadcastAsync('late')).resolves.toEqual({sent: 0, dropped: 1, errors: []});
+
+        Object.defineProperty(socket, 'bufferedAmount', {get: () => 0, configurable: true});
+        const delivered = nextMessage(client);
+        await expect(feed.broadcastAsync(JSON.stringify('hello'))).resolves.toEqual({sent: 1, dropped: 0, errors: []});
+        expect(await delivered).toBe('hello');
+        client.close();
+    });
+
+    it('writes prepared frames to every socket, compressed when shareable', async () => {
+        const text = 'tick '.repeat(1000);
+        for (const compression of [{serverNoContextTakeover: true}, true]) {
+            WebSockets.useCompression(compression);
+            const feed = WebSockets.continuous('/prepared', {useConnectionKeys: false});
+            const clients = [await connect('/prepared'), await connect('/prepared')];
+
+            const received = Promise.all(clients.map((client) => new Promise<string[]>((resolve) => {
+                const messages: string[] = [];
+                client.on('message', (data) => {
+                    if (messages.push(data.toString()) === 3) resolve(messages);
+                });
+            })));
+            const message = prepareMessage(text);
+            const frame = vi.spyOn(message, 'frame');
+            // Ordinary sends after the prepared frame must not break the compression context
+            feed.broadcastPrepared(message);
+            feed.broadcast('plain '.repeat(500), {compress: true});
+            feed.broadcastPrepared(message);
+
+            const expected = [text, 'plain '.repeat(500), text];
+            expect(await received).toEqual([expected, expected]);
+            // Compressed once for both sockets, or not shared with context takeover
+            expect(frame.mock.calls).toEqual(compression === true ? [] : [[15], [15]]);
+            clients.forEach((client) => client.close());
+            feed.destroy();
+        }
+    });
+
+    it('streams an async iterable as prepared broadcasts', async () => {
+        const feed = WebSockets.continuous('/stream', {useConnectionKeys: false});
+        const client = await connect('/stream');
+        const received: string[] = [];
+        const done = new Promise<void>((resolve) => client.on('message', (data) => {
+            received.push(data.toString());
+            if (received.length === 3) resolve();
+        }));
+
+        async function* batches() {
+            for (const batch of ['a', 'b', 'c']) yield batch;
+        }
+
+        expect(await feed.broadcastStream(batches())).toBe(3);
+        await done;
+        expect(received).toEqual(['a', 'b', 'c']);
+        client.close();
+    });
+
+    it('limits the message rate and payload size per socket', async () => {
+        const chat = WebSockets.continuous('/limited', {useConnectionKeys: false, messageRateLimit: {rate: 1, burst: 2, action: 'drop'}, maxPayload: 16});
+        const received: string[] = [];
+        chat.on('message', (_ws, data) => received.push(data.toString()));
+        const violations: string[] = [];
+        chat.on('rateLimit', (_req, violation) => violations.push(`${violation?.limit}:${violation?.action}`));
+        chat.on('error', () => undefined);
+        const logger = {debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn()};
+        WebSockets.useLogger(logger);
+        const connected = nextConnection(chat);
+        const client = await connect('/limited');
+        const socket = await connected;
+
+        client.send('one');
+        client.send('two');
+        client.send('three');
+        client.send('four');
+        await vi.waitFor(() => expect(violations).toHaveLength(2));
+        expect(received).toEqual(['one', 'two']);
+        expect(socket.readyState).toBe(WebSocket.OPEN);
+        // Warned once per socket, the repeats are logged at debug level
+        expect(logger.warn).toHaveBeenCalledOnce();
+        expect(logger.debug).toHaveBeenCalledWith('WebSocket rate limit exceeded', expect.objectContaining({ref: socket.ref}));
+
+        const closed = new Promise<number>((resolve) => client.once('close', resolve));
+        client.send('x'.repeat(32));
+        expect(await closed).toBe(1009);
+        expect(violations).toEqual(['messages:drop', 'messages:drop', 'payload:close']);
+    });
+
+    it('closes sockets over the message rate by default', async () => {
+        WebSockets.continuous('/flood', {useConnectionKeys: false, messageRateLimit: {rate: 1}});
+        const client = await connect('/flood');
+        const closed = new Promise<number>((resolve) => client.once('close', resolve));
+
+        client.send('one');
+        client.send('two');
+
+        expect(await closed).toBe(1013);
+    });
+
+    it('closes sockets on invalid frames when configured', async () => {
+        WebSockets.continuous('/strict', {useConnectionKeys: false, protocol: {validators: {}, onInvalid: 'close'}});
+
+        const client = await connect('/strict');
+        const closed = new Promise<number>((resolve) => client.once('close', resolve));
+        client.send(JSON.stringify({event: 'unknown', data: null}));
+
+        expect(await closed).toBe(1003);
+    });
+
+    it('broadcasts to room members and cleans up membership on close', async () => {
+        const chat = WebSockets.continuous('/rooms', {useConnectionKeys: false});
+        chat.on('connect', (socket) => socket.join(socket.params!.room));
+
+        const connectedA = nextConnection(chat);
+        const a = await connect('/rooms?room=red');
+        await connectedA;
+        const connectedB = nextConnection(chat);
+        const b = await connect('/rooms?room=blue');
+        const socketB = await connectedB;
+
+        const received: string[] = [];
+        b.on('message', () => received.push('b'));
+        const delivered = new Promise((resolve) => a.once('message', (data) => resolve(data.toString())));
+        chat.to('red').broadcast('hello red');
+
+        expect(await delivered).toBe('hello red');
+        expect(received).toEqual([]);
+        expect(chat.getConnectionsInfo().rooms).toEqual({red: 1, blue: 1});
+
+        const disconnected = new Promise((resolve) => chat.once('disconnect', resolve));
+        b.close();
+        await disconnected;
+
+        expect(chat.members('blue')).toEqual([]);
+        expect(chat.roomsOf(socketB.ref)).toEqual([]);
+        expect(chat.rooms).toEqual({red: 1});
+        a.close();
+    });
+
+    it('keeps sockets that closed before joining out of the rooms', async () => {
+        const chat = WebSockets.continuous('/rooms', {useConnectionKeys: false});
+        const disconnected = new Promise((resolve) => chat.once('disconnect', resolve));
+        const joined = new Promise<ReferencedWebSocket>((resolve) => chat.on('connect', async (socket) => {
+            await disconnected;
+            resolve(socket.join('red'));
+        }));
+
+        const client = await connect('/rooms');
+        client.close();
+        const socket = await joined;
+
+        expect(socket.rooms).toEqual([]);
+        expect(chat.members('red')).toEqual([]);
+        expect(chat.rooms).toEqual({});
+    });
+
+    it('calls procedures in both directions and rejects pending calls on close', async () => {
+        const rpc = WebSockets.continuous('/rpc', {useConnectionKeys: false});
+        rpc.procedure('add', ([a, b]: [number, number], ws) => ({sum: a + b, ref: ws.ref}));
+        const connected = nextConnection(rpc);
+
+        const client = await connect('/rpc');
+        const peer = new RpcPeer({
+            send: (frame) => client.send(frame),
+            resolve: (method) => method === 'getState' ? () => ({route: '/settings'}) : () => new Promise(() => undefined)
+        });
+        client.on('message', (data) => peer.handle(data.toString()));
+        const socket = await connected;
+
+        await expect(peer.request('add', [1, 2])).resolves.toEqual({sum: 3, ref: socket.ref});
+        await expect(socket.request('getState', undefined, {timeout: 1000})).resolves.toEqual({route: '/settings'});
+
+        const pending = socket.request('neverAnswers', undefined, {timeout: 5000});
+        client.terminate();
+
+        await expect(pending).rejects.toMatchObject({code: 'CLOSED'});
+        await expect(socket.request('getState')).rejects.toMatchObject({code: 'CLOSED'});
+    });
+
+    it('reports failing procedures and leaves RPC frames alone on endpoints without RPC', async () => {
+        const plain = WebSockets.continuous('/plain', {useConnectionKeys: false});
+        const frame = JSON.stringify({$rpc: 'request', id: '1', method: 'add'});
+        const received = new Promise<string>((resolve) => plain.once('message', (_, data) => resolve(data.toString())));
+        const client = await connect('/plain');
+        client.send(frame);
+        expect(await received).toBe(frame);
+
+        const failure = new Error('procedure failed');
+        plain.procedure('add', () => {
+            throw failure;
+        });
+        const reported = new Promise<Error>((resolve) => plain.once('error', resolve));
+        const response = nextMessage(client);
+        client.send(frame);
+        expect(await response).toMatchObject({$rpc: 'response', id: '1', error: {code: 'INTERNAL'}});
+        expect(await reported).toBe(failure);
+        client.close();
+    });
+
+    it('tracks presence per user across tabs and keeps client lists up to date', async () => {
+        const chat = WebSockets.continuous('/presence', {
+            useConnectionKeys: false,
+            presence: {key: (socket) => socket.params?.user, state: (socket) => ({name: socket.params?.user})}
+        });
+        // The presence state arrives right after the upgrade, so frames are handled from the start
+        const join = async (user: string) => {
+            const presence = createPresence<{ name: string, typing?: boolean }>();
+            const connected = nextConnection(chat);
+            const socket = new WebSocket(`${base}/presence?user=${user}`);
+            socket.on('message', (data) => presence.handle(data.toString()));
+            await new Promise((resolve) => socket.once('open', resolve));
+            await connected;
+            return {socket, presence};
+        };
+        const diffs: unknown[] = [];
+        chat.on('presenceDiff', (diff) => diffs.push(diff));
+
+        const ada = await join('ada');
+        const grace = await join('grace');
+        const adaTab = await join('ada');
+
+        await vi.waitFor(() => expect(ada.presence.list.map((entry) => entry.key)).toEqual(['ada', 'grace']));
+        await vi.waitFor(() => expect(adaTab.presence.size).toBe(2));
+        expect(grace.presence.state).toEqual({ada: {name: 'ada'}, grace: {name: 'grace'}});
+        expect(diffs).toEqual([
+            {joins: {ada: {name: 'ada'}}, leaves: {}, updates: {}},
+            {joins: {grace: {name: 'grace'}}, leaves: {}, updates: {}}
+        ]);
+        expect(chat.presence.get('ada')?.connections).toBe(2);
+
+        chat.presence.update('ada', (state: { name: string }) => ({...state, typing: true}));
+        await vi.waitFor(() => expect(grace.presence.get('ada')).toEqual({name: 'ada', typing: true}));
+
+        // Closing one of two tabs leaves the user present
+        ada.socket.close();
+        await vi.waitFor(() => expect(chat.presence.get('ada')?.connections).toBe(1));
+        expect(diffs).toHaveLength(3);
+
+        adaTab.socket.close();
+        await vi.waitFor(() => expect(grace.presence.list).toEqual([{key: 'grace', state: {name: 'grace'}}]));
+        expect(diffs.at(-1)).toEqual({joins: {}, leaves: {ada: {name: 'ada', typing: true}}, updates: {}});
+        grace.socket.close();
+    });
+});
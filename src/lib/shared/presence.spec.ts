@@ -0,0 +1,23 @@
+import {describe, expect, it} from 'vitest';
+import {applyPresenceDiff, decodePresenceFrame} from './presence.js';
+
+describe('presence frames', () => {
+    it('decodes presence events and ignores other messages', () => {
+        expect(decodePresenceFrame('{"event":"presence_state","data":{"ada":1}}')).toEqual({event: 'presence_state', data: {ada: 1}});
+        expect(decodePresenceFrame('{"event":"presence_diff","data":{"joins":{},"leaves":{"ada":1},"updates":{}}}'))
+            .toEqual({event: 'presence_diff', data: {joins: {}, leaves: {ada: 1}, updates: {}}});
+        expect(decodePresenceFrame('{"event":"presence_diff","data":{"joins":{}}}')).toBeUndefined();
+        expect(decodePresenceFrame('{"event":"presence_state","data":[]}')).toBeUndefined();
+        expect(decodePresenceFrame('{"event":"presence_state"')).toBeUndefined();
+        expect(decodePresenceFrame('{"event":"chat","data":{}}')).toBeUndefined();
+    });
+
+    it('applies leaves, joins and updates without touching the previous state', () => {
+        const state = {ada: {typing: false}, grace: {typing: false}};
+        const next = applyPresenceDiff(state, {joins: {linus: {typing: false}}, leaves: {grace: {typing: false}}, updates: {ada: {typing: true}}});
+
+        expect(next).toEqual({ada: {typing: true}, linus: {typing: false}});
+        expect(state).toEqual({ada: {typing: false}, grace: {typing: false}});
+        expect(Object.getPrototypeOf(applyPresenceDiff({}, JSON.parse('{"joins":{"__proto__":1},"leaves":{},"updates":{}}')))).toBe(Object.prototype);
+    });
+});
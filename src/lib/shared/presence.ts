@@ -0,0 +1,69 @@
+// Presence frames sent by endpoints with `presence`, shared by the server and the client
+
+export const PRESENCE_STATE_EVENT = 'presence_state';
+export const PRESENCE_DIFF_EVENT = 'presence_diff';
+
+/**
+ * State of every present key, e.g. per user id
+ */
+export type PresenceState<TState = unknown> = Record<string, TState>;
+
+/**
+ * Keys that joined (their first socket connected), left (their last socket disconnected) or had their state updated
+ */
+export type PresenceDiff<TState = unknown> = {
+    joins: PresenceState<TState>;
+    leaves: PresenceState<TState>;
+    updates: PresenceState<TState>;
+};
+
+export type PresenceFrame<TState = unknown> =
+    | { event: typeof PRESENCE_STATE_EVENT; data: PresenceState<TState> }
+    | { event: typeof PRESENCE_DIFF_EVENT; data: PresenceDiff<TState> };
+
+// Both events are written by `encodeEvent()`, so the frames always start the same way
+const FRAME_PREFIX = '{"event":"presence_';
+
+const isState = (value: unknown): value is PresenceState => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Decodes a presence frame, or returns undefined for any other message
+ * @param text
+ */
+export function decodePresenceFrame<TState = unknown>(text: string): PresenceFrame<TState> | undefined {
+    if (!text.startsWith(FRAME_PREFIX)) return undefined;
+    let frame: { event?: unknown, data?: any };
+    try {
+        frame = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    if (frame.event === PRESENCE_STATE_EVENT && isState(frame.data)) return frame as PresenceFrame<TState>;
+    if (frame.event === PRESENCE_DIFF_EVENT && isState(frame.data)
+        && isState(frame.data.joins) && isState(frame.data.leaves) && isState(frame.data.updates)) {
+        return frame as PresenceFrame<TState>;
+    }
+    return undefined;
+}
+
+export function emptyDiff<TState>(): PresenceDiff<TState> {
+    return {joins: {}, leaves: {}, updates: {}};
+}
+
+export function isEmptyDiff(diff: PresenceDiff<unknown>): boolean {
+    return Object.keys(diff.joins).length === 0 && Object.keys(diff.leaves).length === 0 && Object.keys(diff.updates).length === 0;
+}
+
+/**
+ * Returns the state with the diff applied: leaves are removed, joins and updates set
+ * @param state
+ * @param diff
+ */
+export function applyPresenceDiff<TState>(state: PresenceState<TState>, diff: PresenceDiff<TState>): PresenceState<TState> {
+    // A map keeps keys like `__proto__` from turning into prototype writes
+    const next = new Map(Object.entries(state));
+    for (const key of Object.keys(diff.leaves)) next.delete(key);
+    for (const [key, value] of Object.entries(diff.joins)) next.set(key, value);
+    for (const [key, value] of Object.entries(diff.updates)) next.set(key, value);
+    return Object.fromEntries(next);
+}
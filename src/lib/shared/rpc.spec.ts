@@ -0,0 +1,83 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {RpcError, RpcPeer, type RpcHandler} from './rpc.js';
+
+// Two peers wired back to back
+const pair = (procedures: Record<string, RpcHandler> = {}, timeout?: number, onError?: (error: unknown, method: string) => void) => {
+    const server: RpcPeer = new RpcPeer({
+        send: (frame) => queueMicrotask(() => client.handle(frame)),
+        resolve: (method) => procedures[method],
+        timeout,
+        onError
+    });
+    const client: RpcPeer = new RpcPeer({
+        send: (frame) => queueMicrotask(() => server.handle(frame)),
+        resolve: () => undefined,
+        timeout
+    });
+    return {server, client};
+};
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('RpcPeer', () => {
+    it('correlates concurrent calls with their responses', async () => {
+        const {client} = pair({
+            double: async (n: number) => {
+                await new Promise((resolve) => setTimeout(resolve, n));
+                return n * 2;
+            }
+        });
+
+        await expect(Promise.all([client.request('double', 20), client.request('double', 1)])).resolves.toEqual([40, 2]);
+        expect(client.pendingCount).toBe(0);
+    });
+
+    it('forwards RpcErrors and hides other errors', async () => {
+        const onError = vi.fn();
+        const {client} = pair({
+            forbidden: () => {
+                throw new RpcError('FORBIDDEN', 'Not allowed', {role: 'guest'});
+            },
+            broken: () => {
+                throw new Error('database password is hunter2');
+            }
+        }, undefined, onError);
+
+        await expect(client.request('forbidden')).rejects.toMatchObject({code: 'FORBIDDEN', message: 'Not allowed', data: {role: 'guest'}});
+        await expect(client.request('broken')).rejects.toMatchObject({code: 'INTERNAL', message: 'Internal error'});
+        await expect(client.request('missing')).rejects.toMatchObject({code: 'METHOD_NOT_FOUND'});
+        // Only the hidden error is handed to the side that ran the procedure
+        expect(onError).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({message: 'database password is hunter2'}), 'broken');
+    });
+
+    it('rejects calls that time out', async () => {
+        vi.useFakeTimers();
+        const peer = new RpcPeer({send: () => undefined, resolve: () => undefined});
+        const call = peer.request('never', undefined, {timeout: 50});
+        const assertion = expect(call).rejects.toMatchObject({code: 'TIMEOUT'});
+
+        await vi.advanceTimersByTimeAsync(50);
+
+        await assertion;
+        expect(peer.pendingCount).toBe(0);
+    });
+
+    it('rejects every pending call on close and refuses new calls', async () => {
+        const peer = new RpcPeer({send: () => undefined, resolve: () => undefined});
+        const calls = [peer.request('a'), peer.request('b')];
+
+        peer.rejectAll();
+
+        for (const call of calls) await expect(call).rejects.toMatchObject({code: 'CLOSED'});
+        await expect(peer.request('c')).rejects.toBeInstanceOf(RpcError);
+    });
+
+    it('ignores frames that are not RPC frames', () => {
+        const peer = new RpcPeer({send: () => undefined, resolve: () => undefined});
+
+        expect(peer.handle('{"event":"chat","data":1}')).toBe(false);
+        expect(peer.handle('{"$rpc":"response","id":"unknown","result":1}')).toBe(true);
+    });
+});
@@ -0,0 +1,182 @@
+// Request/response calls over a WebSocket, shared by the server and the client
+
+export type RpcErrorCode = 'TIMEOUT' | 'CLOSED' | 'METHOD_NOT_FOUND' | 'INVALID_REQUEST' | 'INTERNAL' | (string & {});
+
+export type RpcCallOptions = {
+    /**
+     * Milliseconds to wait for the response before rejecting with a `TIMEOUT` error
+     */
+    timeout?: number;
+    signal?: AbortSignal;
+};
+
+export type RpcHandler = (params: any) => unknown;
+
+type RpcRequestFrame = { $rpc: 'request'; id: string; method: string; params?: unknown };
+type RpcResponseFrame =
+    | { $rpc: 'response'; id: string; result: unknown }
+    | { $rpc: 'response'; id: string; error: { code: RpcErrorCode; message: string; data?: unknown } };
+type RpcFrame = RpcRequestFrame | RpcResponseFrame;
+
+type PendingCall = {
+    resolve: (value: any) => void;
+    reject: (error: RpcError) => void;
+    timer?: ReturnType<typeof setTimeout>;
+    cleanup?: () => void;
+};
+
+const FRAME_PREFIX = '{"$rpc":';
+
+export const DEFAULT_RPC_TIMEOUT = 10_000;
+
+/**
+ * Error raised for failed calls; throw it from a procedure to send a custom `code` and `data` to the caller
+ */
+export class RpcError extends Error {
+    constructor(public readonly code: RpcErrorCode, message: string, public readonly data?: unknown) {
+        super(message);
+        this.name = 'RpcError';
+    }
+}
+
+/**
+ * Cheap check whether a text frame is an RPC frame, without parsing it
+ */
+export function isRpcFrame(text: string): boolean {
+    return text.startsWith(FRAME_PREFIX);
+}
+
+/**
+ * One side of an RPC connection: correlates outgoing calls with their responses and answers incoming calls
+ */
+export class RpcPeer {
+    private pending = new Map<string, PendingCall>();
+    private nextId = 0;
+    private closed = false;
+
+    constructor(private readonly options: {
+        send: (frame: string) => void;
+        resolve: (method: string) => RpcHandler | undefined;
+        timeout?: number;
+        // Receives errors thrown by procedures that aren't RpcErrors, the caller only sees an `INTERNAL` error
+        onError?: (error: unknown, method: string) => void;
+    }) {
+    }
+
+    get pendingCount() {
+        return this.pending.size;
+    }
+
+    /**
+     * Whether this side made calls, so responses to them may arrive
+     */
+    get requested() {
+        return this.nextId > 0;
+    }
+
+    /**
+     * Calls a procedure on the other side
+     * @param method
+     * @param params
+     * @param options
+     */
+    request<T = unknown>(method: string, params?: unknown, options: RpcCallOptions = {}): Promise<T> {
+        if (this.closed) return Promise.reject(new RpcError('CLOSED', 'Connection closed'));
+        if (options.signal?.aborted) return Promise.reject(new RpcError('CLOSED', 'Call aborted'));
+
+        const id = String(++this.nextId);
+        return new Promise<T>((resolve, reject) => {
+            const call: PendingCall = {resolve, reject};
+            const timeout = options.timeout ?? this.options.timeout ?? DEFAULT_RPC_TIMEOUT;
+            if (timeout > 0 && Number.isFinite(timeout)) {
+                call.timer = setTimeout(() => this.settle(id, new RpcError('TIMEOUT', `Call "${method}" timed out after ${timeout}ms`)), timeout);
+            }
+            if (options.signal) {
+                const abort = () => this.settle(id, new RpcError('CLOSED', 'Call aborted'));
+                options.signal.addEventListener('abort', abort, {once: true});
+                call.cleanup = () => options.signal?.removeEventListener('abort', abort);
+            }
+            this.pending.set(id, call);
+
+            try {
+                this.options.send(JSON.stringify({$rpc: 'request', id, method, params} satisfies RpcRequestFrame));
+            } catch (error) {
+                this.settle(id, new RpcError('CLOSED', error instanceof Error ? error.message : 'Failed to send call'));
+            }
+        });
+    }
+
+    /**
+     * Handles an incoming text frame, returns false when it isn't an RPC frame
+     * @param text
+     */
+    handle(text: string): boolean {
+        if (!isRpcFrame(text)) return false;
+
+        let frame: RpcFrame;
+        try {
+            frame = JSON.parse(text);
+        } catch {
+            return true;
+        }
+        if (typeof frame.id !== 'string') return true;
+
+        if (frame.$rpc === 'response') {
+            if ('error' in frame) {
+                this.settle(frame.id, new RpcError(frame.error?.code ?? 'INTERNAL', frame.error?.message ?? 'Remote error', frame.error?.data));
+            } else {
+                this.settle(frame.id, undefined, frame.result);
+            }
+        } else if (frame.$rpc === 'request') {
+            void this.answer(frame);
+        }
+        return true;
+    }
+
+    /**
+     * Rejects every pending call, used when the connection closes
+     * @param error
+     */
+    rejectAll(error: RpcError = new RpcError('CLOSED', 'Connection closed')) {
+        this.closed = true;
+        for (const id of Array.from(this.pending.keys())) this.settle(id, error);
+    }
+
+    private settle(id: string, error?: RpcError, result?: unknown) {
+        const call = this.pending.get(id);
+        if (!call) return;
+        this.pending.delete(id);
+        clearTimeout(call.timer);
+        call.cleanup?.();
+        if (error) call.reject(error);
+        else call.resolve(result);
+    }
+
+    private async answer(frame: RpcRequestFrame) {
+        let response: RpcResponseFrame;
+        const handler = typeof frame.method === 'string' ? this.options.resolve(frame.method) : undefined;
+        if (!handler) {
+            response = {$rpc: 'response', id: frame.id, error: {code: 'METHOD_NOT_FOUND', message: `Unknown method "${frame.method}"`}};
+        } else {
+            try {
+                response = {$rpc: 'response', id: frame.id, result: await handler(frame.params)};
+            } catch (error) {
+                if (!(error instanceof RpcError)) this.options.onError?.(error, frame.method);
+                response = {
+                    $rpc: 'response',
+                    id: frame.id,
+                    // Only RpcErrors are forwarded as-is so internal details don't leak to the other side
+                    error: error instanceof RpcError
+                        ? {code: error.code, message: error.message, data: error.data}
+                        : {code: 'INTERNAL', message: 'Internal error'}
+                };
+            }
+        }
+        if (this.closed) return;
+        try {
+            this.options.send(JSON.stringify(response));
+        } catch {
+            // The connection went away while the procedure was running
+        }
+    }
+}
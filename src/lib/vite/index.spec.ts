@@ -1,39 +1,183 @@
-import {mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {spawn} from 'node:child_process';
+import {existsSync, mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {request} from 'node:http';
 import {tmpdir} from 'node:os';
 import {join} from 'node:path';
-import {describe, expect, it} from 'vitest';
-import {websockets} from './index.js';
+import {describe, expect, it, vi} from 'vitest';
+import {findSocketRoutes, SERVER_ENTRY, SOCKET_ROUTES_ID, socketRoutePath, websockets} from './index.js';
 
 type WebSocketsPlugin = ReturnType<typeof websockets>;
 
+const packageName: string = JSON.parse(readFileSync('package.json', 'utf-8')).name;
+
 describe('websockets vite plugin', () => {
-    it('replaces stale adapter entrypoint backups on repeated builds', () => {
-        const cwd = process.cwd();
+    it('writes a server entry next to the adapter output that upgrades and shuts down gracefully', async () => {
         const root = mkdtempSync(join(tmpdir(), 'sveltekit-websockets-'));
-        const buildDir = join(root, 'build');
-        mkdirSync(buildDir);
+        const out = join(root, 'dist-node');
+        const pkg = join(root, 'node_modules', ...packageName.split('/'));
+        mkdirSync(out);
+        mkdirSync(pkg, {recursive: true});
+        // adapter-node's output with `out: 'dist-node'` and `envPrefix: 'APP_'`
+        writeFileSync(join(out, 'index.js'), 'throw new Error("adapter-node entry");\n');
+        writeFileSync(join(out, 'handler.js'), 'export const handler = (req, res) => res.end("ok");\n');
+        writeFileSync(join(out, 'env.js'), 'export const env = (name, fallback) => "APP_" + name in process.env ? process.env["APP_" + name] : fallback;\n');
+        writeFileSync(join(pkg, 'package.json'), JSON.stringify({name: packageName, type: 'module', exports: {'./server': './server.js'}}));
+        writeFileSync(join(pkg, 'server.js'), [
+            'export const websockets = {',
+            '    upgrade: (req, socket) => socket.end("HTTP/1.1 418 I\'m a Teapot\\r\\nConnection: close\\r\\n\\r\\n"),',
+            '    useOrigin: (origin) => console.log(`origin ${origin}`),',
+            '    clear: async () => console.log("cleared")',
+            '};',
+            ''
+        ].join('\n'));
 
         try {
-            process.chdir(root);
+            const plugin = websockets({out: 'dist-node'}) as WebSocketsPlugin;
+            plugin.configResolved({root, command: 'build'});
+            plugin.closeBundle.handler();
+
+            expect(readFileSync(join(out, 'index.js'), 'utf-8')).toContain('adapter-node entry');
+            const server = spawn(process.execPath, [join(out, SERVER_ENTRY)], {
+                env: {...process.env, APP_HOST: '127.0.0.1', APP_PORT: '0', APP_ORIGIN: 'https://app.example'},
+                stdio: ['ignore', 'pipe', 'inherit']
+            });
+            let stdout = '';
+            server.stdout.on('data', (chunk) => stdout += chunk);
+            const exited = new Promise<number | null>((resolve) => server.once('exit', resolve));
+            try {
+                await vi.waitFor(() => expect(stdout).toMatch(/Listening on http:\/\/127\.0\.0\.1:\d+/), {timeout: 5000});
+                const base = stdout.match(/http:\/\/127\.0\.0\.1:\d+/)![0];
 
-            const firstAdapterIndex = 'export const version = "first";\n';
-            writeFileSync(join(buildDir, 'index.js'), firstAdapterIndex);
+                expect(await (await fetch(base)).text()).toBe('ok');
+                const upgrade = await new Promise<number | undefined>((resolve, reject) => {
+                    request(base, {headers: {connection: 'Upgrade', upgrade: 'websocket'}})
+                        .on('response', (res) => resolve(res.statusCode))
+                        .on('error', reject)
+                        .end();
+                });
+                expect(upgrade).toBe(418);
 
-            const plugin = websockets({packageOutputDir: 'build'}) as WebSocketsPlugin;
+                server.kill('SIGTERM');
+                expect(await exited).toBe(0);
+                expect(stdout).toContain('origin https://app.example');
+                expect(stdout).toContain('cleared');
+            } finally {
+                server.kill();
+            }
+        } finally {
+            rmSync(root, {recursive: true, force: true});
+        }
+    });
+
+    it('leaves builds without adapter-node output alone', () => {
+        const root = mkdtempSync(join(tmpdir(), 'sveltekit-websockets-'));
+        mkdirSync(join(root, 'build'));
+        try {
+            const plugin = websockets() as WebSocketsPlugin;
+            plugin.configResolved({root, command: 'build'});
             plugin.closeBundle.handler();
+            expect(existsSync(join(root, 'build', SERVER_ENTRY))).toBe(false);
+        } finally {
+            rmSync(root, {recursive: true, force: true});
+        }
+    });
 
-            expect(readFileSync(join(buildDir, '_index.js'), 'utf-8')).toBe(firstAdapterIndex);
+    it('warns when a server build leaves no adapter-node output in its directory', () => {
+        const root = mkdtempSync(join(tmpdir(), 'sveltekit-websockets-'));
+        // adapter-node wrote to its own `out`, the plugin wasn't told
+        mkdirSync(join(root, 'dist-node'));
+        writeFileSync(join(root, 'dist-node', 'handler.js'), 'export const handler = () => {};\n');
+        writeFileSync(join(root, 'dist-node', 'env.js'), 'export const env = () => undefined;\n');
+        const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        try {
+            const plugin = websockets() as WebSocketsPlugin;
+            plugin.configResolved({root, command: 'build'});
+            plugin.closeBundle.handler();
+            expect(log).not.toHaveBeenCalled();
 
-            const secondAdapterIndex = 'export const version = "second";\n';
-            writeFileSync(join(buildDir, 'index.js'), secondAdapterIndex);
+            plugin.configResolved({root, command: 'build', build: {ssr: true}});
+            plugin.closeBundle.handler();
+            expect(log).toHaveBeenCalledWith(expect.stringContaining(`no ${SERVER_ENTRY} written`));
+            expect(existsSync(join(root, 'dist-node', SERVER_ENTRY))).toBe(false);
+        } finally {
+            log.mockRestore();
+            rmSync(root, {recursive: true, force: true});
+        }
+    });
 
+    it('writes nothing when a dev, preview or test server shuts down', () => {
+        const root = mkdtempSync(join(tmpdir(), 'sveltekit-websockets-'));
+        const out = join(root, 'build');
+        mkdirSync(out);
+        writeFileSync(join(out, 'handler.js'), 'export const handler = () => {};\n');
+        writeFileSync(join(out, 'env.js'), 'export const env = () => undefined;\n');
+        try {
+            const plugin = websockets() as WebSocketsPlugin;
+            plugin.configResolved({root, command: 'serve'});
             plugin.closeBundle.handler();
+            expect(existsSync(join(out, SERVER_ENTRY))).toBe(false);
+        } finally {
+            rmSync(root, {recursive: true, force: true});
+        }
+    });
 
-            expect(readFileSync(join(buildDir, '_index.js'), 'utf-8')).toBe(secondAdapterIndex);
-            expect(readFileSync(join(buildDir, 'index.js'), 'utf-8')).toContain('SvelteKit WebSockets adapter');
+    it('maps socket route directories to routes', () => {
+        expect(socketRoutePath('.')).toBe('/');
+        expect(socketRoutePath('chat')).toBe('/chat');
+        expect(socketRoutePath('(app)/chat/[room]')).toBe('/chat/[room]');
+        expect(socketRoutePath('api\\(v1)\\feed')).toBe('/api/feed');
+    });
+
+    it('registers the socket route files found in the routes directory', () => {
+        const root = mkdtempSync(join(tmpdir(), 'sveltekit-websockets-'));
+        const routesDir = join(root, 'src', 'routes');
+        mkdirSync(join(routesDir, '(app)', 'chat', '[room]'), {recursive: true});
+        mkdirSync(join(routesDir, 'echo'), {recursive: true});
+        writeFileSync(join(routesDir, '(app)', 'chat', '[room]', 'socket.server.ts'), 'export const config = {};\n');
+        writeFileSync(join(routesDir, 'echo', 'socket.server.js'), 'export const config = {};\n');
+        writeFileSync(join(routesDir, 'echo', '+page.svelte'), '');
+
+        try {
+            expect(findSocketRoutes(routesDir).map(({route}) => route)).toEqual(['/chat/[room]', '/echo']);
+
+            const plugin = websockets() as WebSocketsPlugin;
+            plugin.configResolved({root});
+            const id = plugin.resolveId(SOCKET_ROUTES_ID)!;
+            const code = plugin.load(id)!;
+
+            expect(code).toContain(`import * as route0 from ${JSON.stringify(join(routesDir, '(app)', 'chat', '[room]', 'socket.server.ts'))};`);
+            expect(code).toContain('websockets.route("/chat/[room]", route0);');
+            expect(code).toContain('websockets.route("/echo", route1);');
+            expect(code).toContain(`websockets.hot(${JSON.stringify(SOCKET_ROUTES_ID)})`);
         } finally {
-            process.chdir(cwd);
             rmSync(root, {recursive: true, force: true});
         }
     });
+
+    it('imports the socket routes from the SvelteKit server internals only', () => {
+        const plugin = websockets() as WebSocketsPlugin;
+        const internal = '/app/.svelte-kit/generated/server/internal.js';
+
+        expect(plugin.transform('export {};', internal, {ssr: true})?.code).toContain(`import ${JSON.stringify(SOCKET_ROUTES_ID)};`);
+        expect(plugin.transform('export {};', internal)).toBeUndefined();
+        expect(plugin.transform('export {};', '/app/src/routes/+page.svelte', {ssr: true})).toBeUndefined();
+    });
+
+    it('wraps server modules registering endpoints in websockets.hot() during dev', () => {
+        const plugin = websockets() as WebSocketsPlugin;
+        const code = "import {websockets} from '@sourceregistry/sveltekit-websockets/server';\nwebsockets.continuous('/chat').on('message', () => {});\n";
+
+        plugin.configResolved({root: '/app', command: 'build'});
+        expect(plugin.transform(code, '/app/src/lib/server/chat.ts', {ssr: true})).toBeUndefined();
+
+        plugin.configResolved({root: '/app', command: 'serve'});
+        const wrapped = plugin.transform(code, '/app/src/lib/server/chat.ts', {ssr: true})!.code;
+        expect(wrapped.split('\n')[1]).toBe(code.split('\n')[1]);
+        expect(wrapped).toContain('__websockets.hot("/app/src/lib/server/chat.ts")');
+        expect(wrapped.trimEnd().endsWith('__websockets_done();')).toBe(true);
+
+        expect(plugin.transform(code, '/app/src/lib/server/chat.ts')).toBeUndefined();
+        expect(plugin.transform(code, '/app/node_modules/chat/index.js', {ssr: true})).toBeUndefined();
+        expect(plugin.transform('export const chat = 1;\n', '/app/src/lib/server/other.ts', {ssr: true})).toBeUndefined();
+    });
 });
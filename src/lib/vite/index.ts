@@ -1,10 +1,10 @@
 import {WebSockets} from "../server/index.js";
 import type {IncomingMessage} from "node:http";
-import {resolve, join, dirname} from 'node:path';
+import {resolve, join, basename, dirname, relative, sep} from 'node:path';
 import {styleText} from 'node:util';
 import type {Duplex} from "node:stream";
 
-import {readFileSync, writeFileSync, mkdirSync, existsSync, renameSync, rmSync} from 'node:fs';
+import {readFileSync, writeFileSync, existsSync, readdirSync} from 'node:fs';
 
 // Get the package name from package.json
 const getPackageJSON = () => {
@@ -22,6 +22,9 @@ const getPackageJSON = () => {
 
 const _package = getPackageJSON();
 
+// Written next to adapter-node's output, which it leaves untouched
+export const SERVER_ENTRY = 'server.js';
+
 const template = () =>
     `/**
  * AUTOMATICALLY GENERATED FILE DON'T EDIT MANUALLY
@@ -30,66 +33,210 @@ const template = () =>
  * @generated
  */
 
-import * as polka from "./_index.js";
+import http from 'node:http';
+import process from 'node:process';
+// adapter-node's handler and env lookup, which applies its envPrefix; the handler loads the SvelteKit server and with
+// it the socket routes, before the shared instance is imported below
+import { handler } from './handler.js';
+import { env } from './env.js';
+import { websockets } from '${_package.name}/server';
+
+const path = env('SOCKET_PATH', false);
+const host = env('HOST', '0.0.0.0');
+const port = env('PORT', !path && '3000');
+const shutdown_timeout = parseInt(env('SHUTDOWN_TIMEOUT', '30'));
+const keep_alive_timeout = parseInt(env('KEEP_ALIVE_TIMEOUT', ''));
+const headers_timeout = parseInt(env('HEADERS_TIMEOUT', ''));
+
+const server = http.createServer(handler);
+if (!Number.isNaN(keep_alive_timeout)) server.keepAliveTimeout = keep_alive_timeout * 1000;
+if (!Number.isNaN(headers_timeout)) server.headersTimeout = headers_timeout * 1000;
+server.on('upgrade', (req, socket, head) => websockets.upgrade(req, socket, head));
+// The same-origin check of the endpoints, with the envPrefix applied
+websockets.useOrigin(env('ORIGIN', undefined));
+
+server.listen(path ? { path } : { host, port: Number(port) }, () => {
+    const address = server.address();
+    console.log('> SvelteKit WebSockets adapter');
+    console.log(\`Listening on \${typeof address === 'string' ? address : \`http://\${host}:\${address?.port}\`}\`);
+});
 
-import { WebSockets } from '${_package.name}/server';
-polka.server.server.on('upgrade', (req, socket, head) => WebSockets.upgrade(req, socket, head));
+let shutting_down = false;
 
-console.log('> SvelteKit WebSockets adapter');
+/** @param {'SIGINT' | 'SIGTERM'} reason */
+async function graceful_shutdown(reason) {
+    if (shutting_down) return;
+    shutting_down = true;
 
-export default polka;
+    // Stop taking connections first, then close the sockets with a going away code
+    server.close(() => process.emit('sveltekit:shutdown', reason));
+    server.closeIdleConnections();
+    setTimeout(() => server.closeAllConnections(), shutdown_timeout * 1000).unref();
+    await websockets.clear({ timeout: shutdown_timeout * 1000 });
+}
+
+process.on('SIGTERM', graceful_shutdown);
+process.on('SIGINT', graceful_shutdown);
+
+export { host, path, port, server };
 `;
 
-// Ensure the parent directory exists before writing a file
-const ensureDirExists = (filePath: string) => {
-    const dir = dirname(filePath);
-    if (!existsSync(dir)) {
-        try {
-            mkdirSync(dir, {recursive: true});
-        } catch (err) {
-            throw err; // Re-throw to make the error visible in the build process
-        }
-    }
+export const SOCKET_ROUTES_ID = 'virtual:sveltekit-websockets/routes';
+const RESOLVED_SOCKET_ROUTES_ID = '\0' + SOCKET_ROUTES_ID;
+// SvelteKit reserves `+` files in the routes directory, `.server` keeps the file out of client code
+const SOCKET_ROUTE_FILE = /^socket\.server\.(ts|js)$/;
+
+// This package's server modules, which aren't wrapped in `websockets.hot()`
+const serverDir = resolve(import.meta.dirname, '../server').replaceAll('\\', '/');
+
+// The server entry next to this plugin: dist/server/index.js when installed, the TypeScript source in this repo
+const serverEntry = () => {
+    const built = resolve(import.meta.dirname, '../server/index.js');
+    return existsSync(built) ? built : resolve(import.meta.dirname, '../server/index.ts');
+};
+
+/**
+ * Turns the directory of a `socket.server.ts` file, relative to the routes directory, into its route; `(group)`
+ * segments are left out like SvelteKit does
+ * @param dir
+ */
+export function socketRoutePath(dir: string): string {
+    const segments = dir.split(/[\\/]/).filter((segment) => segment && segment !== '.' && !/^\(.+\)$/.test(segment));
+    return '/' + segments.join('/');
+}
+
+/**
+ * Finds the `socket.server.ts` / `socket.server.js` files under the routes directory
+ * @param routesDir
+ */
+export function findSocketRoutes(routesDir: string): { route: string, file: string }[] {
+    if (!existsSync(routesDir)) return [];
+    return readdirSync(routesDir, {recursive: true, encoding: 'utf8'})
+        .filter((path) => SOCKET_ROUTE_FILE.test(path.split(sep).pop()!))
+        .sort()
+        .map((path) => ({route: socketRoutePath(dirname(path)), file: join(routesDir, path)}));
+}
+
+/**
+ * Source of the module registering the socket routes, imported by the SvelteKit server so they exist from startup on
+ * @param routes
+ */
+export function socketRoutesModule(routes: { route: string, file: string }[]): string {
+    const lines = [`import { websockets } from ${JSON.stringify(serverEntry())};`];
+    routes.forEach(({file}, index) => lines.push(`import * as route${index} from ${JSON.stringify(file)};`));
+    // In dev, routes whose file was deleted are destroyed when the module is evaluated again
+    lines.push(`const done = websockets.hot(${JSON.stringify(SOCKET_ROUTES_ID)});`);
+    routes.forEach(({route}, index) => lines.push(`websockets.route(${JSON.stringify(route)}, route${index});`));
+    lines.push('done();');
+    return lines.join('\n') + '\n';
+}
+
+// Server modules registering endpoints; other calls like `chat.on(...)` in the same module are covered too
+const REGISTERS_ENDPOINTS = /\b(websockets|WebSockets)\.(continuous|route)\(/;
+const SCRIPT = /\.(js|ts|mjs|mts)$/;
+
+/**
+ * Wraps a server module registering endpoints in `websockets.hot()`, so a new version of it replaces the handlers of
+ * the old one instead of adding to them. Keeps the line numbers.
+ * @param code
+ * @param id
+ */
+export function hotModule(code: string, id: string): string {
+    return `import { websockets as __websockets } from ${JSON.stringify(serverEntry())};const __websockets_done = __websockets.hot(${JSON.stringify(id)});${code}\n__websockets_done();\n`;
+}
+
+export type WebSocketsPluginOptions = {
+    out?: string; // adapter-node's `out` directory, default: 'build'
+    /** @deprecated use `out` */
+    packageOutputDir?: string;
+    routes?: string; // directory with the socket.server.ts files, default: 'src/routes'
 };
 
-export const websockets = (opts = {packageOutputDir: 'build'}) => {
+export const websockets = (opts: WebSocketsPluginOptions = {}) => {
+    const options = {routes: 'src/routes', ...opts, out: opts.out ?? opts.packageOutputDir ?? 'build'};
+    let root = process.cwd();
+    let dev = false;
+    let build = false;
+    let ssr = false;
+    const hotModules = new Set<string>();
     return {
         name: 'sveltekit-websocket-server',
+        configResolved: (config: { root: string, command?: string, build?: { ssr?: boolean | string } }) => {
+            root = config.root;
+            dev = config.command === 'serve';
+            build = config.command === 'build';
+            ssr = !!config.build?.ssr;
+        },
+        resolveId: (id: string) => id === SOCKET_ROUTES_ID ? RESOLVED_SOCKET_ROUTES_ID : undefined,
+        load: (id: string) => id === RESOLVED_SOCKET_ROUTES_ID ? socketRoutesModule(findSocketRoutes(resolve(root, options.routes))) : undefined,
+        transform: (code: string, id: string, transformOptions?: { ssr?: boolean }) => {
+            if (!transformOptions?.ssr) return undefined;
+            const path = id.replaceAll('\\', '/').split('?')[0];
+            // SvelteKit's generated server internals load at startup in dev, preview and production, and get bundled
+            // by adapters, so the socket routes go wherever they go
+            if (path.endsWith('/generated/server/internal.js')) return {code: `${code}\nimport ${JSON.stringify(SOCKET_ROUTES_ID)};\n`, map: null};
+            if (!dev || id.startsWith('\0') || path.includes('/node_modules/') || path.startsWith(serverDir)) return undefined;
+            if (!SCRIPT.test(path) || !REGISTERS_ENDPOINTS.test(code)) return undefined;
+            hotModules.add(id);
+            return {code: hotModule(code, id), map: null};
+        },
+        // SvelteKit loads changed server modules again on the next request, the sockets get the new handlers right away
+        hotUpdate(this: { environment: { name: string, moduleGraph: import('vite').EnvironmentModuleGraph } }, update: import('vite').HotUpdateOptions) {
+            if (this.environment.name !== 'ssr') return;
+            if (update.type === 'delete') hotModules.delete(update.file);
+            if (update.type !== 'update' && SOCKET_ROUTE_FILE.test(basename(update.file))) {
+                // Added and deleted route files change the routes module itself
+                const routes = this.environment.moduleGraph.getModuleById(RESOLVED_SOCKET_ROUTES_ID);
+                if (routes) this.environment.moduleGraph.invalidateModule(routes);
+            }
+            setImmediate(() => {
+                for (const id of [SOCKET_ROUTES_ID, ...hotModules]) {
+                    update.server.ssrLoadModule(id).catch((err) => {
+                        console.log(styleText(['redBright'], `Failed to reload ${id}:`), err);
+                    });
+                }
+            });
+        },
         configurePreviewServer: (server: {httpServer?: {on(event: 'upgrade', listener: (req: IncomingMessage, socket: Duplex, head: Buffer) => void): void} | null}) => {
             server.httpServer?.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => WebSockets.upgrade(req, socket, head));
         },
-        configureServer: (server: {httpServer?: {on(event: 'upgrade', listener: (req: IncomingMessage, socket: Duplex, head: Buffer) => void): void} | null}) => {
+        configureServer: (server: {
+            httpServer?: {
+                on(event: 'upgrade', listener: (req: IncomingMessage, socket: Duplex, head: Buffer) => void): void,
+                once(event: 'listening', listener: () => void): void
+            } | null,
+            ssrLoadModule(url: string): Promise<Record<string, any>>
+        }) => {
             server.httpServer?.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => WebSockets.upgrade(req, socket, head));
+            // SvelteKit loads its server on the first request in dev, the socket routes shouldn't wait for that
+            server.httpServer?.once('listening', () => {
+                server.ssrLoadModule(SOCKET_ROUTES_ID).catch((err) => {
+                    console.log(styleText(['redBright'], 'Failed to register socket routes:'), err);
+                });
+            });
         },
         closeBundle: {
             sequential: true,
-            order: 'post', // Ensures this runs last in the writeBundle sequence
+            order: 'post', // Runs after adapter-node wrote its output
             handler: () => {
+                // Dev, preview and vitest servers close their bundle on shutdown too
+                if (!build) return;
+                const outputDir = resolve(root, options.out);
+                // Client builds, other adapters and failed adapter runs leave no server handler to wrap
+                if (!existsSync(join(outputDir, 'handler.js')) || !existsSync(join(outputDir, 'env.js'))) {
+                    // adapter-node keeps its `out` to itself, so a different one only shows as missing output
+                    if (ssr) {
+                        console.log(styleText(['yellow'], `> ${_package.name}: no adapter-node output in ${relative(root, outputDir) || '.'}, no ${SERVER_ENTRY} written.`));
+                        console.log(styleText(['yellow'], `  Pass adapter-node's \`out\` to the websockets() plugin when it isn't '${options.out}'.`));
+                    }
+                    return;
+                }
                 try {
-                    // Use the absolute path and ensure no leading slash in join
-                    const outputDir = resolve(process.cwd(), opts.packageOutputDir);
-                    const filePath = join(outputDir, 'index.js');
-
+                    writeFileSync(join(outputDir, SERVER_ENTRY), template(), {encoding: 'utf8'});
                     console.log(styleText(['cyan', 'bold'], `> Using ${_package.name}`));
-
-                    // Ensure the filepath directory exists
-                    ensureDirExists(filePath);
-
-                    if (existsSync(filePath)) {
-                        const indexContents = readFileSync(filePath, 'utf-8');
-                        if (!indexContents.includes('SvelteKit WebSockets adapter')) {
-                            const oldIndexPath = join(outputDir, '_index.js');
-                            rmSync(oldIndexPath, {force: true});
-                            console.log(styleText(['yellow', 'italic'], `  - Renaming existing ${opts.packageOutputDir}/index.js -> ${opts.packageOutputDir}/_index.js`));
-                            renameSync(filePath, oldIndexPath);
-                        }
-                    }
-
-                    // Write the template to app.js file
-                    writeFileSync(filePath, template(), {encoding: 'utf8'});
-                    console.log(styleText('green', '  ✔ done'));
+                    console.log(styleText('green', `  ✔ wrote ${relative(root, join(outputDir, SERVER_ENTRY))}, start it with node ${relative(root, join(outputDir, SERVER_ENTRY))}`));
                 } catch (err) {
-                    console.log(styleText(['redBright'], 'Failed to write websocket adapter file:'), err);
+                    console.log(styleText(['redBright'], 'Failed to write websocket server entry:'), err);
                     throw err; // Re-throw to make the error visible in the build process
                 }
             }
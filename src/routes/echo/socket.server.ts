@@ -0,0 +1,7 @@
+import type {SocketRouteModule} from "$lib/server/index.js"; //!IMPORTANT use in production "@sourceregistry/sveltekit-websockets/server"
+
+export const config: SocketRouteModule['config'] = {useConnectionKeys: false};
+
+export const message: SocketRouteModule['message'] = (socket, data, isBinary) => {
+    socket.send(data, {binary: isBinary});
+};